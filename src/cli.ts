@@ -0,0 +1,542 @@
+#!/usr/bin/env node
+
+import { LoadStats, loadDocumentsWithCache } from './utils/cache.js';
+import { LoadedConfig, loadConfiguration } from './utils/config.js';
+import { DocSource, requireSource, resolveSources } from './utils/sources.js';
+import { LinkAuditReport, LinkIssue, auditLinks } from './utils/audit.js';
+import {
+  Document,
+  RelatedDocuments,
+  ScoreExplanation,
+  SearchOptions,
+  explainRelevanceScore,
+  filterRelationships,
+  findDocument,
+  rankDocuments,
+  resolveRelatedDocuments
+} from './utils/docs.js';
+import { SearchIndex, buildSearchIndex } from './utils/search-index.js';
+import { getScoringTerms } from './utils/query.js';
+import { extractSnippets } from './utils/snippets.js';
+import { createSectionOutline } from './utils/markdown.js';
+import { assessFreshness } from './utils/freshness.js';
+import { CategorySummary, summarizeCategories } from './utils/tree.js';
+import { FacetCount, computeFacets } from './utils/facets.js';
+import { SourceHistories } from './utils/git.js';
+
+const USAGE = `Usage: va-docs-mcp [command] [options]
+
+Commands:
+  search <query>          Search the way search_docs does, showing scores and snippets
+  get <path>              Print a document with its metadata
+  related <path>          List a document's prerequisites, follow-ups, related docs and dependents
+  categories              List sources and categories with document counts
+  stats                   Summarize the index: documents, types, freshness, links, relationships, cache
+  explain <query> <path>  Break a document's relevance score for a query into its parts
+  audit                   Check internal links; exits 1 on broken links or missing anchors
+  serve                   Run the MCP server; the default with no command
+
+Options:
+  --docs <path>           Docs repository (default: VA_DOCS_PATH, the config file or a sibling va.gov-team checkout)
+  --json                  Print JSON instead of text
+  --source <id>           Only this source (search, get, related, categories, explain)
+  --category <name>       Only this category (search, explain, audit)
+  --type <type>           Only this document type; repeat for several (search, explain)
+  --context <text>        Search context, e.g. "new developer" (search, explain)
+  --exclude-outdated      Skip documents that look outdated (search, explain)
+  --limit <n>             Results, or related documents of each kind (default: 10)
+  --min-confidence <n>    Only relationships at least this confident, 0-1 (get, related)
+  --strict                Also fail on ambiguous links and orphaned documents (audit)
+  --watch                 Re-index when files change (serve)
+  --http                  Serve Streamable HTTP instead of stdio (serve)
+  --port <n>              HTTP port (serve; default: VA_DOCS_HTTP_PORT or 3000)
+  --host <name>           HTTP interface (serve; default: VA_DOCS_HTTP_HOST or 127.0.0.1)
+
+Exits 1 when audit finds problems or a document isn't found, 2 on any other error.`;
+
+const DEFAULT_LIMIT = 10;
+
+interface CliOptions {
+  command?: string;
+  positionals: string[];
+  docs?: string;
+  source?: string;
+  category?: string;
+  types: string[];
+  context?: string;
+  excludeOutdated: boolean;
+  limit: number;
+  minConfidence: number;
+  strict: boolean;
+  json: boolean;
+  watch: boolean;
+  http: boolean;
+  port?: string;
+  host?: string;
+}
+
+interface LoadedIndex {
+  sources: DocSource[];
+  documents: Document[];
+  searchIndex: SearchIndex;
+  git: SourceHistories;
+  stats: LoadStats;
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
+    positionals: [],
+    types: [],
+    excludeOutdated: false,
+    limit: DEFAULT_LIMIT,
+    minConfidence: 0,
+    strict: false,
+    json: false,
+    watch: false,
+    http: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined || next.startsWith('--')) {
+        throw new Error(`${arg} needs a value`);
+      }
+      return next;
+    };
+    const number = (min: number, max: number) => {
+      const raw = value();
+      const parsed = Number(raw);
+      if (raw.trim() === '' || Number.isNaN(parsed) || parsed < min || parsed > max) {
+        throw new Error(`${arg} must be a number from ${min} to ${max}, not ${raw}`);
+      }
+      return parsed;
+    };
+
+    switch (arg) {
+      case '--docs': options.docs = value(); break;
+      case '--source': options.source = value(); break;
+      case '--category': options.category = value(); break;
+      case '--type': options.types.push(value()); break;
+      case '--context': options.context = value(); break;
+      case '--exclude-outdated': options.excludeOutdated = true; break;
+      case '--limit': options.limit = Math.floor(number(1, 1000)); break;
+      case '--min-confidence': options.minConfidence = number(0, 1); break;
+      case '--strict': options.strict = true; break;
+      case '--json': options.json = true; break;
+      case '--watch': options.watch = true; break;
+      case '--http': options.http = true; break;
+      case '--port': options.port = value(); break;
+      case '--host': options.host = value(); break;
+      case '-h':
+      case '--help': options.command = 'help'; break;
+      default:
+        if (arg.startsWith('-')) {
+          throw new Error(`Unknown argument: ${arg}`);
+        }
+        if (options.command === undefined) {
+          options.command = arg;
+        } else {
+          options.positionals.push(arg);
+        }
+    }
+  }
+
+  return options;
+}
+
+// The command's positional arguments, which must be exactly these
+function expectArguments(options: CliOptions, names: string[]): string[] {
+  if (options.positionals.length !== names.length) {
+    const expected = names.map(name => `<${name}>`).join(' ') || 'no arguments';
+    throw new Error(`${options.command} takes ${expected}`);
+  }
+  return options.positionals;
+}
+
+function getSearchOptions(options: CliOptions): SearchOptions {
+  return {
+    source: options.source,
+    category: options.category,
+    documentTypes: options.types.length > 0 ? options.types : undefined,
+    context: options.context,
+    excludeOutdated: options.excludeOutdated
+  };
+}
+
+async function loadIndex(config: LoadedConfig): Promise<LoadedIndex> {
+  const sources = resolveSources(config.sources, config.roots);
+  const { documents, git, stats } = await loadDocumentsWithCache(sources);
+  return { sources, documents, searchIndex: buildSearchIndex(documents), git, stats };
+}
+
+// Documents are looked up the way get_document does, so a source is
+// needed for source-local paths when several repositories are indexed
+function requireDocument(options: CliOptions, index: LoadedIndex, path: string): Document | undefined {
+  if (options.source) requireSource(options.source);
+  const doc = findDocument(index.documents, path, options.source);
+  if (!doc) {
+    console.error(`Document not found: ${path}${options.source ? ` in ${options.source}` : ''}`);
+  }
+  return doc;
+}
+
+function printJson(value: unknown) {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+function formatScore(score: number): string {
+  return score.toFixed(1);
+}
+
+function formatCounts(counts: FacetCount[] | Record<string, number>): string {
+  const entries = Array.isArray(counts)
+    ? counts.map(entry => [entry.value, entry.count] as const)
+    : Object.entries(counts);
+  return entries.map(([name, count]) => `${name} ${count}`).join(', ') || 'none';
+}
+
+function runSearch(options: CliOptions, index: LoadedIndex): number {
+  const [query] = expectArguments(options, ['query']);
+  if (options.source) requireSource(options.source);
+  const results = rankDocuments(index.searchIndex, query, { ...getSearchOptions(options), limit: options.limit });
+  const terms = getScoringTerms(query);
+
+  if (options.json) {
+    printJson({
+      query,
+      count: results.length,
+      results: results.map(({ doc, score }) => ({
+        path: doc.relativePath,
+        source: doc.source,
+        title: doc.title,
+        category: doc.category,
+        documentType: doc.documentType,
+        score,
+        summary: doc.summary,
+        snippets: extractSnippets(doc, terms)
+      }))
+    });
+    return 0;
+  }
+
+  if (results.length === 0) {
+    console.log(`No documents match "${query}"`);
+    return 0;
+  }
+  results.forEach(({ doc, score }, i) => {
+    console.log(`${String(i + 1).padStart(2)}. ${doc.relativePath}  [${formatScore(score)}]`);
+    console.log(`    ${doc.title} (${[doc.documentType, doc.category].filter(Boolean).join(', ')})`);
+    const [snippet] = extractSnippets(doc, terms, 1);
+    if (snippet) {
+      console.log(`    > ${snippet.text.replace(/\s*\n\s*/g, ' ')} (line ${snippet.startLine})`);
+    }
+  });
+  return 0;
+}
+
+function runGet(options: CliOptions, index: LoadedIndex): number {
+  const [path] = expectArguments(options, ['path']);
+  const doc = requireDocument(options, index, path);
+  if (!doc) return 1;
+  const freshness = assessFreshness(doc);
+
+  if (options.json) {
+    printJson({
+      path: doc.relativePath,
+      source: doc.source,
+      title: doc.title,
+      category: doc.category,
+      summary: doc.summary,
+      documentType: doc.documentType,
+      sections: createSectionOutline(doc.sections || []),
+      estimatedReadTime: doc.estimatedReadTime,
+      lastModified: doc.lastModified,
+      freshness: { score: freshness.score, status: freshness.status, reasons: freshness.reasons },
+      git: doc.git,
+      relationships: filterRelationships(doc.relationships, options.minConfidence),
+      internalLinks: doc.internalLinks,
+      externalReferences: doc.externalReferences,
+      frontmatter: doc.frontmatter,
+      content: doc.content
+    });
+    return 0;
+  }
+
+  console.log(doc.title);
+  console.log([
+    doc.relativePath,
+    doc.documentType,
+    doc.category,
+    doc.estimatedReadTime ? `${doc.estimatedReadTime} min read` : undefined,
+    doc.lastModified ? `modified ${new Date(doc.lastModified).toISOString().slice(0, 10)}` : undefined,
+    `${freshness.status} (${freshness.score.toFixed(2)})`
+  ].filter(Boolean).join(' | '));
+  freshness.reasons.forEach(reason => console.log(`  - ${reason.detail}`));
+  console.log(`\n${doc.content.trim()}`);
+  return 0;
+}
+
+const RELATIONSHIP_LABELS: Record<keyof RelatedDocuments, string> = {
+  prerequisites: 'Prerequisites',
+  followUps: 'Follow-ups',
+  seeAlso: 'See also',
+  dependents: 'Linked from'
+};
+
+function runRelated(options: CliOptions, index: LoadedIndex): number {
+  const [path] = expectArguments(options, ['path']);
+  const doc = requireDocument(options, index, path);
+  if (!doc) return 1;
+  const related = resolveRelatedDocuments(doc, index.documents, options.limit, options.minConfidence);
+
+  if (options.json) {
+    printJson({ path: doc.relativePath, title: doc.title, related });
+    return 0;
+  }
+
+  console.log(`${doc.title} (${doc.relativePath})`);
+  const kinds = Object.keys(RELATIONSHIP_LABELS) as (keyof RelatedDocuments)[];
+  if (kinds.every(kind => !related[kind])) {
+    console.log('\nNo related documents');
+  }
+  for (const kind of kinds) {
+    const entries = related[kind];
+    if (!entries) continue;
+    console.log(`\n${RELATIONSHIP_LABELS[kind]}:`);
+    entries.forEach(entry => {
+      const origin = entry.rule ? `${entry.source}: ${entry.rule}` : entry.source;
+      console.log(`  ${entry.path}  ${entry.title}  (${origin}, ${entry.confidence.toFixed(2)})`);
+    });
+  }
+  return 0;
+}
+
+function formatCategory(category: CategorySummary): string {
+  const lines = [`${category.name}  ${category.documentCount} documents${category.title ? `  "${category.title}"` : ''}`];
+  if (category.sources) lines.push(`  sources: ${formatCounts(category.sources)}`);
+  if (category.subcategories.length > 0) lines.push(`  subcategories: ${formatCounts(category.subcategories)}`);
+  if (category.documentTypes.length > 0) lines.push(`  types: ${formatCounts(category.documentTypes)}`);
+  return lines.join('\n');
+}
+
+function runCategories(options: CliOptions, index: LoadedIndex): number {
+  expectArguments(options, []);
+  if (options.source) requireSource(options.source);
+  const sources = index.sources.map(source => ({
+    id: source.id,
+    path: source.path,
+    documentCount: index.documents.filter(doc => doc.source === source.id).length
+  }));
+  const categories = summarizeCategories(options.source
+    ? index.documents.filter(doc => doc.source === options.source)
+    : index.documents);
+
+  if (options.json) {
+    printJson({ sources, categories });
+    return 0;
+  }
+
+  sources.forEach(source => console.log(`Source ${source.id}: ${source.documentCount} documents in ${source.path}`));
+  categories.forEach(category => console.log(`\n${formatCategory(category)}`));
+  return 0;
+}
+
+function runStats(options: CliOptions, index: LoadedIndex): number {
+  expectArguments(options, []);
+  const { documents } = index;
+  const facets = computeFacets(documents, ['source', 'documentType', 'freshness']);
+
+  const freshness = { fresh: 0, aging: 0, outdated: 0 };
+  documents.forEach(doc => freshness[assessFreshness(doc).status]++);
+
+  const relationships: Record<string, number> = {};
+  const relationshipSources: Record<string, number> = {};
+  for (const doc of documents) {
+    for (const [kind, edges] of Object.entries(doc.relationships || {})) {
+      for (const edge of edges || []) {
+        relationships[kind] = (relationships[kind] || 0) + 1;
+        relationshipSources[edge.source] = (relationshipSources[edge.source] || 0) + 1;
+      }
+    }
+  }
+  const total = (count: (doc: Document) => number) => documents.reduce((sum, doc) => sum + count(doc), 0);
+
+  const stats = {
+    documents: documents.length,
+    categories: new Set(documents.map(doc => doc.category)).size,
+    sources: index.sources.map(source => ({
+      id: source.id,
+      path: source.path,
+      documents: facets.source.find(entry => entry.value === source.id)?.count || 0,
+      gitHead: index.git[source.id]?.head
+    })),
+    documentTypes: facets.documentType,
+    freshness,
+    lastModified: facets.freshness,
+    links: {
+      internal: total(doc => doc.internalLinks?.length || 0),
+      resolved: total(doc => doc.linkedDocuments?.length || 0),
+      external: total(doc => doc.externalReferences?.length || 0)
+    },
+    relationships,
+    relationshipSources,
+    unresolvedRelationships: total(doc => doc.unresolvedRelationships?.length || 0),
+    indexedTerms: index.searchIndex.postings.size,
+    cache: index.stats
+  };
+
+  if (options.json) {
+    printJson(stats);
+    return 0;
+  }
+
+  const { links, cache } = stats;
+  console.log(`Documents:      ${stats.documents} in ${stats.categories} categories`);
+  stats.sources.forEach(source => {
+    const git = source.gitHead ? `git ${source.gitHead.slice(0, 8)}` : 'not a git checkout';
+    console.log(`Source:         ${source.id}, ${source.documents} documents (${source.path}, ${git})`);
+  });
+  console.log(`Types:          ${formatCounts(stats.documentTypes)}`);
+  console.log(`Freshness:      ${formatCounts(stats.freshness)}`);
+  console.log(`Last modified:  ${formatCounts(stats.lastModified)}`);
+  console.log(`Links:          ${links.internal} internal (${links.resolved} resolved), ${links.external} external`);
+  console.log(`Relationships:  ${formatCounts(stats.relationships)}`);
+  console.log(`  from:         ${formatCounts(stats.relationshipSources)}`);
+  console.log(`  unresolved:   ${stats.unresolvedRelationships}`);
+  console.log(`Indexed terms:  ${stats.indexedTerms}`);
+  console.log(`Cache:          ${cache.cacheStatus}, ${cache.reused} reused, ${cache.parsed} parsed, ${cache.removed} removed`);
+  return 0;
+}
+
+const COMPONENT_LABELS: Record<keyof ScoreExplanation['components'], string> = {
+  title: 'title',
+  headings: 'headings',
+  summary: 'summary',
+  content: 'content',
+  exactTitle: 'exact title',
+  documentType: 'document type',
+  freshness: 'freshness',
+  context: 'context'
+};
+
+function formatExplanation(explanation: ScoreExplanation): string {
+  const row = (label: string, score: number) => `  ${label.padEnd(16)}${formatScore(score).padStart(8)}`;
+  const lines = [
+    `${explanation.path} for "${explanation.query}"`,
+    explanation.matched
+      ? `Rank ${explanation.rank} of ${explanation.resultCount} results`
+      : `Not a result, ${explanation.resultCount} other documents are: ${explanation.reason}`,
+    '',
+    'Score components:',
+    ...(Object.keys(COMPONENT_LABELS) as (keyof ScoreExplanation['components'])[])
+      .map(name => row(COMPONENT_LABELS[name], explanation.components[name])),
+    row('total', explanation.score)
+  ];
+
+  if (explanation.terms.length > 0) {
+    lines.push('', 'Text score by term:', ...explanation.terms.map(term => row(term.term, term.score)));
+  }
+  if (explanation.contextBoosts.length > 0) {
+    lines.push('', 'Context boosts:', ...explanation.contextBoosts.map(rule =>
+      `  ${rule.profile}: ${rule.field} matches ${rule.keywords.join(' or ')} (+${rule.boost})`
+    ));
+  }
+  return lines.join('\n');
+}
+
+function runExplain(options: CliOptions, index: LoadedIndex): number {
+  const [query, path] = expectArguments(options, ['query', 'path']);
+  const doc = requireDocument(options, index, path);
+  if (!doc) return 1;
+  const explanation = explainRelevanceScore(index.searchIndex, doc, query, getSearchOptions(options));
+
+  console.log(options.json ? JSON.stringify(explanation, null, 2) : formatExplanation(explanation));
+  return 0;
+}
+
+function formatIssues(label: string, issues: LinkIssue[], describe: (issue: LinkIssue) => string): string[] {
+  if (issues.length === 0) return [];
+  return [`${label} (${issues.length}):`, ...issues.map(issue => `  ${issue.source}:${issue.line}  ${describe(issue)}`), ''];
+}
+
+function formatReport(report: LinkAuditReport): string {
+  const lines = [
+    ...formatIssues('Broken links', report.brokenLinks, issue => issue.link),
+    ...formatIssues('Missing anchors', report.missingAnchors, issue => `${issue.link} (no #${issue.anchor} in ${issue.target})`),
+    ...formatIssues('Ambiguous links', report.ambiguousLinks, issue =>
+      `${issue.link} -> ${issue.target}${issue.candidates && issue.candidates.length > 1 ? ` (${issue.candidates.length} candidates)` : ''}`
+    )
+  ];
+
+  if (report.orphans.length > 0) {
+    lines.push(`Orphaned documents (${report.orphans.length}):`, ...report.orphans.map(orphan => `  ${orphan.path}`), '');
+  }
+
+  lines.push(
+    `Checked ${report.checkedLinks} links in ${report.checkedDocuments} documents: ` +
+    `${report.brokenLinks.length} broken, ${report.missingAnchors.length} missing anchors, ` +
+    `${report.ambiguousLinks.length} ambiguous, ${report.orphans.length} orphaned`
+  );
+  return lines.join('\n');
+}
+
+function runAudit(options: CliOptions, index: LoadedIndex): number {
+  expectArguments(options, []);
+  const report = auditLinks(index.documents, { category: options.category });
+
+  console.log(options.json ? JSON.stringify(report, null, 2) : formatReport(report));
+
+  const failures = report.brokenLinks.length + report.missingAnchors.length +
+    (options.strict ? report.ambiguousLinks.length + report.orphans.length : 0);
+  return failures > 0 ? 1 : 0;
+}
+
+const COMMANDS: Record<string, (options: CliOptions, index: LoadedIndex) => number> = {
+  search: runSearch,
+  get: runGet,
+  related: runRelated,
+  categories: runCategories,
+  stats: runStats,
+  explain: runExplain,
+  audit: runAudit
+};
+
+// Resolves to the exit code, or undefined while the server runs
+async function main(): Promise<number | undefined> {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.docs) {
+    process.env.VA_DOCS_PATH = options.docs;
+  }
+
+  // MCP clients launch the server without a command
+  if (options.command === undefined || options.command === 'serve') {
+    expectArguments(options, []);
+    const { runServer } = await import('./index.js');
+    runServer({ watch: options.watch, http: options.http, port: options.port, host: options.host });
+    return undefined;
+  }
+  if (options.command === 'help') {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const command = COMMANDS[options.command];
+  if (!command) {
+    console.error(`Unknown command: ${options.command}\n`);
+    console.error(USAGE);
+    return 2;
+  }
+  return command(options, await loadIndex(loadConfiguration()));
+}
+
+main().then(
+  code => {
+    if (code !== undefined) process.exit(code);
+  },
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(2);
+  }
+);
@@ -0,0 +1,199 @@
+import { IncomingMessage, ServerResponse, createServer } from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export const MCP_ENDPOINT = '/mcp';
+export const HEALTH_ENDPOINT = '/health';
+
+// Requests are small JSON-RPC messages; anything bigger is a mistake or abuse
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Sessions a client walked away from without sending DELETE
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_MS = 60 * 1000;
+
+// In-flight requests get this long to finish on shutdown
+const SHUTDOWN_GRACE_MS = 10 * 1000;
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  token?: string;    // Required as "Authorization: Bearer <token>" when set
+}
+
+// What the HTTP layer needs from the docs server
+export interface HttpSessionHost {
+  createServer(): Server;
+  getHealth(): Record<string, unknown>;
+}
+
+export interface HttpServerHandle {
+  url: string;
+  close(): Promise<void>;
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// Errors before a request reaches a transport still answer in JSON-RPC form
+function sendError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}) {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null }, headers);
+}
+
+// Hash both sides so the comparison takes the same time whatever the length
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const match = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, `Request body is larger than ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch (error) {
+    throw new HttpError(400, `Request body is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+// Serve MCP over Streamable HTTP: POST for requests, GET for the SSE stream
+// of server notifications, DELETE to end a session. Each session gets its
+// own MCP server from the host; they all answer from the same index.
+export async function startHttpServer(host: HttpSessionHost, options: HttpServerOptions): Promise<HttpServerHandle> {
+  const sessions = new Map<string, HttpSession>();
+
+  const openSession = async (): Promise<StreamableHTTPServerTransport> => {
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: sessionId => {
+        sessions.set(sessionId, { transport, lastSeen: Date.now() });
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    await host.createServer().connect(transport);
+    return transport;
+  };
+
+  const handleMcp = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    let transport: StreamableHTTPServerTransport;
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        throw new HttpError(404, `Unknown or expired session: ${sessionId}`);
+      }
+      session.lastSeen = Date.now();
+      transport = session.transport;
+    } else if (req.method === 'POST' && isInitializeRequest(body)) {
+      transport = await openSession();
+    } else {
+      throw new HttpError(400, 'Missing Mcp-Session-Id header; start a session with an initialize request');
+    }
+
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = createServer((req, res) => {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+    if (path === HEALTH_ENDPOINT && req.method === 'GET') {
+      sendJson(res, 200, host.getHealth());
+      return;
+    }
+    if (path !== MCP_ENDPOINT) {
+      sendError(res, 404, `Not found: ${path}`);
+      return;
+    }
+    if (options.token && !isAuthorized(req, options.token)) {
+      sendError(res, 401, 'Missing or invalid bearer token', { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    handleMcp(req, res).catch(error => {
+      if (res.headersSent) {
+        console.error('Error handling MCP request:', error);
+        res.end();
+      } else if (error instanceof HttpError) {
+        sendError(res, error.status, error.message);
+      } else {
+        console.error('Error handling MCP request:', error);
+        sendError(res, 500, 'Internal server error');
+      }
+    });
+  });
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const [sessionId, session] of sessions) {
+      if (session.lastSeen < cutoff) {
+        console.error(`Closing idle session ${sessionId}`);
+        session.transport.close().catch(error => console.error(`Could not close session ${sessionId}:`, error));
+      }
+    }
+  }, SESSION_SWEEP_MS);
+  sweep.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = address && typeof address === 'object' ? address.port : options.port;
+  const url = `http://${options.host.includes(':') ? `[${options.host}]` : options.host}:${port}${MCP_ENDPOINT}`;
+
+  return {
+    url,
+    // Stop taking connections, end every session so open SSE streams close,
+    // then wait for in-flight requests up to the grace period
+    close: async () => {
+      clearInterval(sweep);
+      const closed = new Promise<void>(resolve => httpServer.close(() => resolve()));
+      await Promise.all(Array.from(sessions.values()).map(session => session.transport.close().catch(error => {
+        console.error('Could not close session:', error);
+      })));
+      httpServer.closeIdleConnections();
+
+      let timer: NodeJS.Timeout | undefined;
+      const timeout = new Promise<void>(resolve => {
+        timer = setTimeout(() => {
+          httpServer.closeAllConnections();
+          resolve();
+        }, SHUTDOWN_GRACE_MS);
+      });
+      await Promise.race([closed, timeout]);
+      clearTimeout(timer);
+    }
+  };
+}
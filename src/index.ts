@@ -1,23 +1,102 @@
 #!/usr/bin/env node
 
+import { realpathSync } from 'fs';
+import { fileURLToPath } from 'url';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
-  ToolSchema
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  ToolSchema,
+  UnsubscribeRequestSchema
 } from '@modelcontextprotocol/sdk/types.js';
-import { findVaDocsRepo } from './utils/paths.js';
-import { findDocuments, parseDocument, searchDocuments, buildRelationshipIndex, resolveRelatedDocuments, Document } from './utils/docs.js';
+import { resolveRelatedDocuments, filterRelationships, findBestSection, findDocument, searchDocuments, Document, DocumentChanges } from './utils/docs.js';
+import { DocumentSection, createSectionOutline, findSectionByAnchor, findSectionByHeadingPath, getSectionContent } from './utils/markdown.js';
+import { getScoringTerms } from './utils/query.js';
+import { ContentPage, MIN_PAGE_TOKENS, estimateTokens, paginateContent } from './utils/chunks.js';
+import { FileFingerprint, getCachePath, isCacheEnabled, loadDocumentsWithCache, writeIndexCache } from './utils/cache.js';
+import { DocsWatcher, applyFileChanges, watchDocuments } from './utils/watcher.js';
+import { findRecentChanges } from './utils/changes.js';
+import { auditLinks } from './utils/audit.js';
+import { EDGE_TYPES, buildDocumentGraph, findShortestPath, formatGraph, getNeighborhood, getReadingOrder } from './utils/graph.js';
+import { SourceHistories, applySourceHistories, getDocumentDiff, getDocumentHistory, readSourceHistories } from './utils/git.js';
+import { assessFreshness, buildFreshnessReport } from './utils/freshness.js';
+import { loadConfiguration } from './utils/config.js';
+import { DocSource, getLocalPath, isNamespaced, requireSource, resolveSources } from './utils/sources.js';
+import { CodeSnippetIndex, buildCodeSnippetIndex, searchCodeSnippets } from './utils/code-blocks.js';
+import { DEFAULT_DUPLICATE_THRESHOLD, findDuplicateClusters, findSimilarDocuments, getSharedSimilarityIndex } from './utils/similarity.js';
+import { EmbeddingBackend, createEmbeddingBackendFromEnv, getEmbeddingCachePath, readEmbeddingCache, writeEmbeddingCache } from './utils/embeddings.js';
+import { RankedDocument, SEARCH_MODES, VectorIndex, buildVectorIndex, searchWithMode } from './utils/semantic.js';
+import { buildPrompt, listPrompts } from './utils/prompts.js';
+import { RESOURCE_TEMPLATES, findAffectedSubscriptions, listDocumentResources, readResource } from './utils/resources.js';
+import { buildSearchIndex, SearchIndex } from './utils/search-index.js';
+import { HttpServerOptions, startHttpServer } from './http.js';
+import { FACET_NAMES, computeFacets, validateFacets } from './utils/facets.js';
+import { browseTree, summarizeCategories } from './utils/tree.js';
+import { DEFAULT_MAX_SNIPPETS, extractSnippets } from './utils/snippets.js';
+import { FEW_HITS, SpellingIndex, buildSpellingIndex, suggestQueries } from './utils/suggest.js';
 
-class VaDocsMcpServer {
-  private server: Server;
-  private docsPath: string;
+// Full content in search results stops once this many tokens are used
+const DEFAULT_RESPONSE_TOKEN_BUDGET = 20000;
+
+// One connected client. Every session has its own MCP server object and
+// resource subscriptions; the documents and indexes are shared.
+interface Session {
+  server: Server;
+  subscriptions: Set<string>;
+}
+
+export class VaDocsMcpServer {
+  private sessions = new Set<Session>();
+  private sources: DocSource[] = [];
   private documents: Document[] = [];
+  private searchIndex: SearchIndex = buildSearchIndex([]);
   private documentsLoaded = false;
+  private documentsLoading: Promise<void> | null = null;
+  private fingerprints = new Map<string, FileFingerprint>();
+  private gitHistory: SourceHistories = {};
+  private codeSnippetIndex: CodeSnippetIndex | null = null;
+  private spellingIndex: SpellingIndex | null = null;
+  private embeddingBackend: EmbeddingBackend | null = null;
+  private vectorIndex: VectorIndex | null = null;
+  private vectorIndexBuild: Promise<{ index: VectorIndex; backend: EmbeddingBackend }> | null = null;
+  private watchEnabled: boolean;
+  private watcher?: DocsWatcher;
 
-  constructor() {
-    this.server = new Server(
+  constructor(options: { watch?: boolean } = {}) {
+    this.watchEnabled = options.watch ?? false;
+
+    // Settings come first: they can name the docs repositories
+    let config: ReturnType<typeof loadConfiguration>;
+    try {
+      config = loadConfiguration();
+      if (config.file) {
+        console.error(`Using configuration from ${config.file}`);
+      }
+    } catch (error) {
+      console.error('Invalid configuration:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+
+    // Find the docs repositories
+    try {
+      this.sources = resolveSources(config.sources, config.roots);
+      this.sources.forEach(source => console.error(`Found VA docs at: ${source.path} (source ${source.id})`));
+    } catch (error) {
+      console.error('Error finding VA docs repository:', error);
+      process.exit(1);
+    }
+  }
+
+  // A new MCP server for one client, answering from the shared index
+  createServer(): Server {
+    const server = new Server(
       {
         name: 'va-docs-mcp',
         version: '1.0.0',
@@ -25,188 +104,846 @@ class VaDocsMcpServer {
       },
       {
         capabilities: {
-          tools: {}
+          tools: {},
+          prompts: {},
+          resources: {
+            subscribe: true,
+            listChanged: true
+          }
         }
       }
     );
+    
+    const session: Session = { server, subscriptions: new Set() };
+    this.setupHandlers(session);
+    this.sessions.add(session);
+    server.onclose = () => this.sessions.delete(session);
+    return server;
+  }
 
-    // Find the docs repository
-    try {
-      this.docsPath = findVaDocsRepo();
-      console.error(`Found VA docs at: ${this.docsPath}`);
-    } catch (error) {
-      console.error('Error finding VA docs repository:', error);
-      process.exit(1);
-    }
+  // Answered without the bearer token, so it says nothing about the host
+  getHealth() {
+    return { status: 'ok', documentsLoaded: this.documentsLoaded };
+  }
 
-    this.setupHandlers();
+  // Concurrent sessions share one load
+  private loadDocuments(): Promise<void> {
+    if (!this.documentsLoading) {
+      this.documentsLoading = this.readDocuments().catch(error => {
+        this.documentsLoading = null;
+        throw error;
+      });
+    }
+    return this.documentsLoading;
   }
 
-  private async loadDocuments() {
-    if (this.documentsLoaded) return;
-    
+  private async readDocuments() {
     console.error('Loading documents...');
-    const files = await findDocuments(this.docsPath);
-    this.documents = files
-      .map(file => parseDocument(file, this.docsPath))
-      .filter((doc): doc is Document => doc !== null);
+    const { documents, fingerprints, git, stats } = await loadDocumentsWithCache(this.sources);
+    this.documents = documents;
+    this.fingerprints = fingerprints;
+    this.gitHistory = git;
+    
+    console.error(
+      `Loaded ${this.documents.length} documents (cache ${stats.cacheStatus}: ` +
+      `${stats.reused} reused, ${stats.parsed} parsed, ${stats.removed} removed)`
+    );
+    for (const source of this.sources.filter(source => !git[source.id])) {
+      console.error(`${source.path} is not a git checkout; using file modification times for its dates`);
+    }
     
-    console.error(`Loaded ${this.documents.length} documents, building relationships...`);
-    buildRelationshipIndex(this.documents);
+    console.error('Building search index...');
+    this.searchIndex = buildSearchIndex(this.documents);
     
     this.documentsLoaded = true;
     console.error(`Finished loading with relationships indexed`);
+    
+    if (this.watchEnabled) {
+      this.startWatching();
+    }
+  }
+
+  // Built on the first semantic or hybrid search. Vectors are kept on disk
+  // per backend, so later builds only embed new or edited chunks.
+  private getVectorIndex(): Promise<{ index: VectorIndex; backend: EmbeddingBackend }> {
+    if (!this.vectorIndexBuild) {
+      const build = this.buildVectorIndex();
+      build.catch(() => {
+        if (this.vectorIndexBuild === build) this.vectorIndexBuild = null;
+      });
+      this.vectorIndexBuild = build;
+    }
+    return this.vectorIndexBuild;
+  }
+
+  private async buildVectorIndex() {
+    if (!this.embeddingBackend) {
+      this.embeddingBackend = await createEmbeddingBackendFromEnv();
+    }
+    const backend = this.embeddingBackend;
+    const cachePath = isCacheEnabled() ? getEmbeddingCachePath(getCachePath(this.sources), backend) : null;
+    const cache = this.vectorIndex?.cache || (cachePath ? readEmbeddingCache(cachePath, backend) : new Map());
+    
+    console.error(`Building vector index with the ${backend.id} embedding backend...`);
+    const index = await buildVectorIndex(this.documents, backend, cache);
+    this.vectorIndex = index;
+    console.error(`Vector index has ${index.chunks.length} chunks (${index.embedded} embedded, the rest cached)`);
+    
+    if (cachePath && index.embedded > 0) {
+      try {
+        writeEmbeddingCache(cachePath, backend, index.cache);
+      } catch (error) {
+        console.error(`Could not write embedding cache to ${cachePath}:`, error);
+      }
+    }
+    return { index, backend };
+  }
+
+  // Built on the first code snippet search
+  private getCodeSnippetIndex(): CodeSnippetIndex {
+    if (!this.codeSnippetIndex) {
+      this.codeSnippetIndex = buildCodeSnippetIndex(this.documents);
+    }
+    return this.codeSnippetIndex;
+  }
+
+  // Built the first time a search comes up short
+  private getSpellingIndex(): SpellingIndex {
+    if (!this.spellingIndex) {
+      this.spellingIndex = buildSpellingIndex(this.searchIndex);
+    }
+    return this.spellingIndex;
+  }
+
+  private startWatching() {
+    try {
+      const watchers = this.sources.map(source => {
+        const watcher = watchDocuments(source.path, paths => this.handleFileChanges(source, paths));
+        console.error(`Watching ${source.path} for changes`);
+        return watcher;
+      });
+      this.watcher = { close: () => watchers.forEach(watcher => watcher.close()) };
+    } catch (error) {
+      console.error('Could not start document watcher:', error);
+    }
+  }
+
+  private handleFileChanges(source: DocSource, paths: string[]) {
+    const { documents, changes } = applyFileChanges(this.documents, source, paths);
+    const changedPaths = [...changes.added, ...changes.modified, ...changes.removed];
+    if (changedPaths.length === 0) return;
+    
+    this.documents = documents;
+    this.searchIndex = buildSearchIndex(this.documents);
+    this.codeSnippetIndex = null;
+    this.spellingIndex = null;
+    this.vectorIndexBuild = null;
+    console.error(
+      `Re-indexed after file changes: ${changes.added.length} added, ` +
+      `${changes.modified.length} modified, ${changes.removed.length} removed`
+    );
+    
+    // Forget stale fingerprints so the cache write re-hashes just these files
+    changedPaths.forEach(path => this.fingerprints.delete(path));
+    
+    this.notifyResourceChanges(changes);
+    
+    // Edits may come from a pull or checkout, so HEAD may have moved too
+    this.refreshGitMetadata().catch(error => {
+      console.error('Could not refresh git metadata:', error);
+    });
   }
 
-  private setupHandlers() {
+  private async refreshGitMetadata() {
+    this.gitHistory = await readSourceHistories(this.sources, this.gitHistory);
+    await applySourceHistories(this.documents, this.sources, this.gitHistory);
+    
+    if (isCacheEnabled()) {
+      try {
+        writeIndexCache(getCachePath(this.sources), this.documents, this.fingerprints, this.gitHistory);
+      } catch (error) {
+        console.error('Could not update index cache:', error);
+      }
+    }
+  }
+
+  private notifyResourceChanges(changes: DocumentChanges) {
+    for (const { server, subscriptions } of this.sessions) {
+      if (changes.added.length > 0 || changes.removed.length > 0) {
+        server.sendResourceListChanged().catch(error => {
+          console.error('Could not send resource list notification:', error);
+        });
+      }
+      
+      for (const uri of findAffectedSubscriptions(subscriptions, changes)) {
+        server.sendResourceUpdated({ uri }).catch(error => {
+          console.error(`Could not send resource update for ${uri}:`, error);
+        });
+      }
+    }
+  }
+
+  private setupHandlers({ server, subscriptions }: Session) {
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: [
         {
-          name: 'search_docs',
-          description: 'Search VA.gov documentation by query',
+          name: 'search_docs',
+          description: 'Search VA.gov documentation by query. When a query finds few or no documents, the response suggests corrected spellings that find more',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description: 'Search query. Supports "quoted phrases", AND/OR/NOT (or -term), (grouping) and field filters such as type:api-docs, category:products, path:health-care/*, title:..., frontmatter.status:active and lastModified:>2024-01-01'
+              },
+              source: {
+                type: 'string',
+                description: 'Only search this source repository, by id (see list_categories)'
+              },
+              category: {
+                type: 'string',
+                description: 'Optional category filter (e.g., "products", "platform", "design")'
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of results (default: 10)'
+              },
+              include_full_content: {
+                type: 'boolean',
+                description: 'Include full document content in results (default: false)'
+              },
+              context: {
+                type: 'string',
+                description: 'Search context to improve relevance (e.g., "new developer", "API integration", "troubleshooting")'
+              },
+              document_types: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Filter by document types (e.g., ["guide", "api-docs", "setup-guide"])'
+              },
+              exclude_outdated: {
+                type: 'boolean',
+                description: 'Exclude potentially outdated documentation (default: false)'
+              },
+              max_tokens: {
+                type: 'number',
+                description: 'With include_full_content, cap each document at this many tokens; longer documents return their first page and a next_cursor for get_document'
+              },
+              response_token_budget: {
+                type: 'number',
+                description: `With include_full_content, total tokens of document content across all results (default: ${DEFAULT_RESPONSE_TOKEN_BUDGET})`
+              },
+              min_confidence: {
+                type: 'number',
+                description: 'Only include relationship edges with at least this confidence, 0-1 (e.g., 0.8 drops edges guessed by inference rules; default: 0)'
+              },
+              mode: {
+                type: 'string',
+                enum: SEARCH_MODES,
+                description: 'keyword (default) matches query words; semantic ranks by meaning using local embeddings of document chunks; hybrid fuses both rankings. Field filters and exclusions apply in every mode'
+              },
+              max_snippets: {
+                type: 'number',
+                description: `Passages around the matched terms to return per result when full content is not included, with matches marked **like this**, the enclosing heading and the line number (default: ${DEFAULT_MAX_SNIPPETS})`
+              },
+              facets: {
+                type: 'array',
+                items: { type: 'string' },
+                description: `Count all matching documents (not just the returned page) by these facets: ${FACET_NAMES.join(', ')} or frontmatter.<key>. subcategory and topic are the second and third path levels (e.g. products/health-care); freshness buckets documents by last modification`
+              }
+            },
+            required: ['query']
+          }
+        },
+        {
+          name: 'get_document',
+          description: 'Get the full content of a specific document',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Relative path to the document (e.g., "products/health-care/appointments/README.md")'
+              },
+              source: {
+                type: 'string',
+                description: 'Source repository id; path may then be relative to that repository'
+              },
+              include_related: {
+                type: 'boolean',
+                description: 'Include related documents (prerequisites, follow-ups, see-also) in the response (default: false)'
+              },
+              min_confidence: {
+                type: 'number',
+                description: 'Only include relationship edges and related documents with at least this confidence, 0-1 (e.g., 0.8 drops edges guessed by inference rules; default: 0)'
+              },
+              max_tokens: {
+                type: 'number',
+                description: 'Return content in pages of at most this many tokens, split on heading and paragraph boundaries'
+              },
+              cursor: {
+                type: 'string',
+                description: 'next_cursor from a previous response, to fetch the following page'
+              }
+            },
+            required: ['path']
+          }
+        },
+        {
+          name: 'get_section',
+          description: 'Get one section of a document (and its subsections) by heading anchor or heading path',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Relative path to the document (e.g., "products/health-care/appointments/README.md")'
+              },
+              anchor: {
+                type: 'string',
+                description: 'GitHub-style heading anchor (e.g., "local-setup" or "#local-setup")'
+              },
+              heading_path: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Headings from outer to inner (e.g., ["API", "Authentication"]); levels may be skipped'
+              },
+              include_subsections: {
+                type: 'boolean',
+                description: 'Include nested subsections in the content (default: true)'
+              },
+              max_tokens: {
+                type: 'number',
+                description: 'Return content in pages of at most this many tokens, split on heading and paragraph boundaries'
+              },
+              cursor: {
+                type: 'string',
+                description: 'next_cursor from a previous response, to fetch the following page'
+              }
+            },
+            required: ['path']
+          }
+        },
+        {
+          name: 'search_code_snippets',
+          description: 'Search the fenced code blocks in documents (curl examples, config files, rake tasks) by their code, the paragraph introducing them and their headings. Returns the code with its language, section, line range and that paragraph',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description: 'What the snippet does or contains (e.g., "curl appointments endpoint", "vets-api rake task")'
+              },
+              languages: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only blocks in these languages (e.g., ["bash", "json"]); sh, shell and console count as bash, yml as yaml, js as javascript. Untagged blocks that start with a command count as bash'
+              },
+              source: {
+                type: 'string',
+                description: 'Only search this source repository, by id (see list_categories)'
+              },
+              category: {
+                type: 'string',
+                description: 'Only search documents in this category'
+              },
+              path: {
+                type: 'string',
+                description: 'Only search documents matching this glob (e.g., "products/health-care/**")'
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of snippets (default: 10)'
+              },
+              max_lines: {
+                type: 'number',
+                description: 'Cut longer code to this many lines (default: 40); get_document has the rest'
+              }
+            },
+            required: ['query']
+          }
+        },
+        {
+          name: 'get_document_history',
+          description: 'List recent git commits that changed a document, optionally with the diff between two revisions',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Relative path to the document (e.g., "products/health-care/appointments/README.md")'
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of commits to list (default: 10)'
+              },
+              from: {
+                type: 'string',
+                description: 'Revision to diff from (commit hash, branch, tag or e.g. "HEAD~3"); omit for no diff'
+              },
+              to: {
+                type: 'string',
+                description: 'Revision to diff to (default: HEAD)'
+              },
+              max_tokens: {
+                type: 'number',
+                description: 'Return the diff in pages of at most this many tokens'
+              },
+              cursor: {
+                type: 'string',
+                description: 'next_cursor from a previous response, to fetch the following page of the diff'
+              }
+            },
+            required: ['path']
+          }
+        },
+        {
+          name: 'recent_changes',
+          description: 'List documents added, modified, deleted or renamed in git since a date or revision, with the sections that changed',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              since: {
+                type: 'string',
+                description: 'Date (e.g. "2024-06-01" or "2 weeks ago") or git revision (commit, branch, tag) to compare from'
+              },
+              source: {
+                type: 'string',
+                description: 'Source repository id; required when several sources are indexed'
+              },
+              category: {
+                type: 'string',
+                description: 'Only documents in this category (e.g. "platform")'
+              },
+              path: {
+                type: 'string',
+                description: 'Only documents whose path matches this glob (e.g. "platform/*", "health-care/**")'
+              },
+              author: {
+                type: 'string',
+                description: 'Only documents changed by an author whose name or email contains this'
+              },
+              sort: {
+                type: 'string',
+                enum: ['recent', 'path'],
+                description: 'Most recently changed first (default) or alphabetical by path'
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of documents to return (default: 50)'
+              }
+            },
+            required: ['since']
+          }
+        },
+        {
+          name: 'audit_links',
+          description: 'Report broken internal links, links to missing heading anchors, ambiguous links and orphaned documents nothing links to',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              category: {
+                type: 'string',
+                description: 'Only audit documents in this category (e.g. "products")'
+              },
+              include_orphans: {
+                type: 'boolean',
+                description: 'List documents no other document links to (default: true)'
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum entries per list; totals are always reported (default: 100)'
+              }
+            }
+          }
+        },
+        {
+          name: 'get_document_graph',
+          description: 'Get the documents within N hops of a document through links and declared relationships, as JSON or a Mermaid/DOT diagram',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Relative path of the document at the center'
+              },
+              depth: {
+                type: 'number',
+                description: 'Number of hops to include (default: 1, max: 4)'
+              },
+              direction: {
+                type: 'string',
+                enum: ['out', 'in', 'both'],
+                description: 'Follow edges out of documents, into them, or both (default: both)'
+              },
+              edge_types: {
+                type: 'array',
+                items: { type: 'string', enum: EDGE_TYPES },
+                description: 'Edge types to follow (default: all)'
+              },
+              format: {
+                type: 'string',
+                enum: ['json', 'mermaid', 'dot'],
+                description: 'Output format (default: json)'
+              }
+            },
+            required: ['path']
+          }
+        },
+        {
+          name: 'find_document_path',
+          description: 'Find the shortest chain of links and relationships from one document to another',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              from: {
+                type: 'string',
+                description: 'Relative path of the starting document'
+              },
+              to: {
+                type: 'string',
+                description: 'Relative path of the target document'
+              },
+              direction: {
+                type: 'string',
+                enum: ['out', 'both'],
+                description: 'Only follow links as written, or in either direction (default: out)'
+              },
+              edge_types: {
+                type: 'array',
+                items: { type: 'string', enum: EDGE_TYPES },
+                description: 'Edge types to follow (default: all)'
+              },
+              format: {
+                type: 'string',
+                enum: ['json', 'mermaid', 'dot'],
+                description: 'Output format (default: json)'
+              }
+            },
+            required: ['from', 'to']
+          }
+        },
+        {
+          name: 'get_reading_order',
+          description: 'Order documents so prerequisites come first and follow-ups after, reporting any prerequisite cycles',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Start from this document: its prerequisites, itself, then its follow-ups'
+              },
+              category: {
+                type: 'string',
+                description: 'Order every document in this category'
+              },
+              path_prefix: {
+                type: 'string',
+                description: 'Order every document under this directory (e.g. "products/health-care/appointments")'
+              },
+              format: {
+                type: 'string',
+                enum: ['json', 'mermaid', 'dot'],
+                description: 'Output format (default: json)'
+              }
+            }
+          }
+        },
+        {
+          name: 'find_similar',
+          description: 'Find the documents whose content is most like a given document ("more like this")',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Relative path to the document to compare against'
+              },
+              category: {
+                type: 'string',
+                description: 'Only return documents in this category'
+              },
+              min_score: {
+                type: 'number',
+                description: 'Lowest cosine similarity to include, 0-1 (default: 0.1)'
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of documents (default: 10)'
+              }
+            },
+            required: ['path']
+          }
+        },
+        {
+          name: 'find_duplicates',
+          description: 'Group near-identical documents (e.g. copies of the same onboarding doc in several product folders) and show which copy is newest',
           inputSchema: {
             type: 'object',
             properties: {
-              query: {
-                type: 'string',
-                description: 'Search query'
+              threshold: {
+                type: 'number',
+                description: `Share of text two copies must have in common, 0-1 (default: ${DEFAULT_DUPLICATE_THRESHOLD})`
               },
               category: {
                 type: 'string',
-                description: 'Optional category filter (e.g., "products", "platform", "design")'
+                description: 'Only check documents in this category'
+              },
+              path: {
+                type: 'string',
+                description: 'Only check documents matching this glob (e.g. "products/*/onboarding*")'
               },
               limit: {
                 type: 'number',
-                description: 'Maximum number of results (default: 10)'
-              },
-              include_full_content: {
-                type: 'boolean',
-                description: 'Include full document content in results (default: false)'
-              },
-              context: {
+                description: 'Maximum number of clusters (default: 50)'
+              }
+            }
+          }
+        },
+        {
+          name: 'freshness_report',
+          description: 'List the stalest documents in each category with the reasons they look outdated (age, deprecation banners, frontmatter status, archive folders, old software versions)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              category: {
                 type: 'string',
-                description: 'Search context to improve relevance (e.g., "new developer", "API integration", "troubleshooting")'
+                description: 'Only report on this category'
               },
-              document_types: {
-                type: 'array',
-                items: { type: 'string' },
-                description: 'Filter by document types (e.g., ["guide", "api-docs", "setup-guide"])'
+              limit: {
+                type: 'number',
+                description: 'Maximum documents listed per category (default: 5)'
               },
-              exclude_outdated: {
-                type: 'boolean',
-                description: 'Exclude potentially outdated documentation (default: false)'
+              max_score: {
+                type: 'number',
+                description: 'Only list documents with a freshness score at or below this, 0-1 (default: 0.8, everything not fresh)'
               }
-            },
-            required: ['query']
+            }
           }
         },
         {
-          name: 'get_document',
-          description: 'Get the full content of a specific document',
+          name: 'browse_tree',
+          description: 'Browse the documentation directory hierarchy with document counts and README/index titles; drill down by path prefix (e.g. "products/health-care")',
           inputSchema: {
             type: 'object',
             properties: {
               path: {
                 type: 'string',
-                description: 'Relative path to the document (e.g., "products/health-care/appointments/README.md")'
+                description: 'Directory to start from (default: the docs root)'
               },
-              include_related: {
-                type: 'boolean',
-                description: 'Include related documents (prerequisites, follow-ups, see-also) in the response (default: false)'
+              depth: {
+                type: 'number',
+                description: 'Levels of subdirectories to include (default: 1)'
               }
-            },
-            required: ['path']
+            }
           }
         },
         {
           name: 'list_categories',
-          description: 'List all available documentation categories',
+          description: 'List all available documentation categories with document counts, subcategories and document types, and the source repositories indexed',
           inputSchema: {
             type: 'object',
-            properties: {}
+            properties: {
+              source: {
+                type: 'string',
+                description: 'Only categories in this source repository'
+              }
+            }
           }
         }
       ]
     }));
 
+    // Expose every document as a resource
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      await this.loadDocuments();
+      return listDocumentResources(this.documents, request.params?.cursor);
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      await this.loadDocuments();
+      return readResource(this.documents, request.params.uri);
+    });
+
+    // Subscribing needs the watcher to notice changes, so start it on demand
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      await this.loadDocuments();
+      subscriptions.add(request.params.uri);
+      if (!this.watcher) {
+        this.startWatching();
+      }
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    // Prompt templates for common documentation workflows
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: listPrompts()
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      await this.loadDocuments();
+      return buildPrompt(request.params.name, request.params.arguments, this.searchIndex, this.documents);
+    });
+
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       await this.loadDocuments();
 
       switch (request.params.name) {
         case 'search_docs': {
           const { 
             query, 
+            source,
             category, 
             limit = 10, 
             include_full_content = false,
             context,
             document_types,
-            exclude_outdated = false
+            exclude_outdated = false,
+            max_tokens,
+            response_token_budget = DEFAULT_RESPONSE_TOKEN_BUDGET,
+            min_confidence = 0,
+            mode = 'keyword',
+            max_snippets = DEFAULT_MAX_SNIPPETS,
+            facets
           } = request.params.arguments as any;
           
-          const results = searchDocuments(this.documents, query, { 
+          if (!SEARCH_MODES.includes(mode)) {
+            throw new Error(`Unknown search mode: ${mode}. Use one of: ${SEARCH_MODES.join(', ')}`);
+          }
+          const facetNames = facets === undefined ? [] : validateFacets(facets);
+          if (source !== undefined) requireSource(source);
+          
+          const options = { 
+            source,
             category, 
             limit,
             context,
             documentTypes: document_types,
             excludeOutdated: exclude_outdated
+          };
+          const vectors = mode === 'keyword' ? null : await this.getVectorIndex();
+          // Facets count every match, so only they need the search unlimited
+          const ranked = await searchWithMode(mode, this.searchIndex, vectors?.index || null, vectors?.backend || null, query, {
+            ...options,
+            limit: facetNames.length > 0 ? undefined : limit
           });
+          const results = ranked.slice(0, limit).map(result => result.doc);
+          const retrieval = new Map(ranked.map(result => [result.doc, result]));
+          
+          // Typos are judged by keyword hits in every mode; semantic search
+          // returns something for any query, misspelled or not
+          const countHits = (text: string) => searchDocuments(this.searchIndex, text, { ...options, limit: undefined }).length;
+          const keywordHits = mode === 'keyword' && results.length < limit ? results.length : countHits(query);
+          const suggestions = keywordHits < FEW_HITS
+            ? suggestQueries(this.getSpellingIndex(), query, keywordHits, countHits)
+            : [];
+          
+          const queryTerms = getScoringTerms(query);
+          let remainingBudget = response_token_budget;
           
           return {
             content: [{
               type: 'text',
               text: JSON.stringify({
                 query,
+                mode,
                 count: results.length,
-                results: results.map(doc => ({
-                  path: doc.relativePath,
-                  title: doc.title,
-                  category: doc.category,
-                  summary: doc.summary,
-                  documentType: doc.documentType,
-                  keySections: doc.keySections,
-                  estimatedReadTime: doc.estimatedReadTime,
-                  lastModified: doc.lastModified,
-                  relationships: doc.relationships,
-                  internalLinks: doc.internalLinks,
-                  excerpt: include_full_content ? undefined : doc.content.substring(0, 200) + '...',
-                  content: include_full_content ? doc.content : undefined,
-                  frontmatter: include_full_content ? doc.frontmatter : undefined
-                }))
+                total: facetNames.length > 0 ? ranked.length : undefined,
+                facets: facetNames.length > 0 ? computeFacets(ranked.map(result => result.doc), facetNames) : undefined,
+                suggestions: suggestions.length > 0 ? suggestions : undefined,
+                results: results.map(doc => {
+                  // Each document gets at most max_tokens, and never more than is left of the budget
+                  let content: string | undefined;
+                  let nextCursor: string | undefined;
+                  let contentOmitted: boolean | undefined;
+                  if (include_full_content) {
+                    const allowed = Math.min(max_tokens ?? Infinity, remainingBudget);
+                    if (allowed < MIN_PAGE_TOKENS) {
+                      contentOmitted = true;
+                    } else {
+                      const page = paginateContent(doc.content, Number.isFinite(allowed) ? Math.floor(allowed) : undefined);
+                      content = page.content;
+                      nextCursor = page.nextCursor;
+                      remainingBudget -= estimateTokens(page.content);
+                    }
+                  }
+                  
+                  return {
+                    path: doc.relativePath,
+                    source: doc.source,
+                    title: doc.title,
+                    category: doc.category,
+                    summary: doc.summary,
+                    documentType: doc.documentType,
+                    keySections: doc.keySections,
+                    estimatedReadTime: doc.estimatedReadTime,
+                    lastModified: doc.lastModified,
+                    freshness: formatFreshness(doc),
+                    relationships: filterRelationships(doc.relationships, min_confidence),
+                    internalLinks: doc.internalLinks,
+                    bestSection: formatBestSection(findBestSection(doc, queryTerms)),
+                    retrieval: mode === 'keyword' ? undefined : formatRetrieval(retrieval.get(doc)!),
+                    snippets: content === undefined ? extractSnippets(doc, queryTerms, max_snippets) : undefined,
+                    content,
+                    next_cursor: nextCursor,
+                    content_omitted: contentOmitted,
+                    frontmatter: include_full_content ? doc.frontmatter : undefined
+                  };
+                })
               }, null, 2)
             }]
           };
         }
 
         case 'get_document': {
-          const { path, include_related = false } = request.params.arguments as any;
-          const doc = this.documents.find(d => d.relativePath === path);
+          const { path, source, include_related = false, min_confidence = 0, max_tokens, cursor } = request.params.arguments as any;
+          const doc = findDocument(this.documents, path, source);
           
           if (!doc) {
-            throw new Error(`Document not found: ${path}`);
+            throw new Error(`Document not found: ${path}${source ? ` in source ${source}` : ''}`);
           }
           
           const responseData: any = {
             path: doc.relativePath,
+            source: doc.source,
             title: doc.title,
             category: doc.category,
             summary: doc.summary,
             documentType: doc.documentType,
             keySections: doc.keySections,
+            sections: createSectionOutline(doc.sections || []),
             estimatedReadTime: doc.estimatedReadTime,
             lastModified: doc.lastModified,
-            relationships: doc.relationships,
+            freshness: formatFreshness(doc),
+            git: doc.git,
+            relationships: filterRelationships(doc.relationships, min_confidence),
+            unresolvedRelationships: doc.unresolvedRelationships,
             internalLinks: doc.internalLinks,
             externalReferences: doc.externalReferences,
             frontmatter: doc.frontmatter,
             content: doc.content
           };
           
+          if (max_tokens || cursor) {
+            const page = paginateContent(doc.content, max_tokens, cursor);
+            responseData.content = page.content;
+            responseData.page = formatPage(page, doc.bodyStartLine || 1);
+          }
+          
           // Include related documents if requested
           if (include_related) {
-            const relatedDocs = resolveRelatedDocuments(doc, this.documents);
+            const relatedDocs = resolveRelatedDocuments(doc, this.documents, 3, min_confidence);
             if (Object.keys(relatedDocs).length > 0) {
               responseData.related_documents = relatedDocs;
             }
@@ -220,14 +957,278 @@ class VaDocsMcpServer {
           };
         }
 
+        case 'get_section': {
+          const { path, anchor, heading_path, include_subsections = true, max_tokens, cursor } = request.params.arguments as any;
+          const doc = this.documents.find(d => d.relativePath === path);
+          
+          if (!doc) {
+            throw new Error(`Document not found: ${path}`);
+          }
+          if (!anchor && !heading_path) {
+            throw new Error('Either anchor or heading_path is required');
+          }
+          
+          const sections = doc.sections || [];
+          const section = anchor
+            ? findSectionByAnchor(sections, anchor)
+            : findSectionByHeadingPath(sections, Array.isArray(heading_path) ? heading_path : String(heading_path).split('>'));
+          
+          if (!section) {
+            const available = createSectionOutline(sections).map(entry => entry.anchor);
+            throw new Error(`Section not found in ${path}: ${anchor || heading_path}. Available anchors: ${available.join(', ') || 'none'}`);
+          }
+          
+          const page = paginateContent(getSectionContent(doc.content, section, include_subsections), max_tokens, cursor);
+          
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                path: doc.relativePath,
+                title: doc.title,
+                heading: section.heading,
+                anchor: section.anchor,
+                level: section.level,
+                headingPath: section.headingPath,
+                startLine: section.startLine,
+                endLine: section.endLine,
+                subsections: createSectionOutline(section.children),
+                content: page.content,
+                page: max_tokens || cursor ? formatPage(page, section.startLine) : undefined
+              }, null, 2)
+            }]
+          };
+        }
+
+        case 'search_code_snippets': {
+          const { query, languages, source, category, path, limit, max_lines } = request.params.arguments as any;
+          if (source !== undefined) requireSource(source);
+          if (languages !== undefined && !(Array.isArray(languages) && languages.every(language => typeof language === 'string'))) {
+            throw new Error('languages must be an array of language names');
+          }
+          const result = searchCodeSnippets(this.getCodeSnippetIndex(), query, {
+            languages, source, category, path, limit, maxLines: max_lines
+          });
+          
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ query, ...result }, null, 2)
+            }]
+          };
+        }
+
+        case 'get_document_history': {
+          const { path, limit = 10, from, to, max_tokens, cursor } = request.params.arguments as any;
+          const doc = this.documents.find(d => d.relativePath === path);
+          
+          if (!doc) {
+            throw new Error(`Document not found: ${path}`);
+          }
+          const source = requireSource(doc.source!);
+          if (!this.gitHistory[source.id]) {
+            throw new Error(`Document history needs a git checkout, and ${source.path} is not one`);
+          }
+          
+          const localPath = getLocalPath(doc.relativePath);
+          const responseData: any = {
+            path: doc.relativePath,
+            title: doc.title,
+            git: doc.git,
+            commits: await getDocumentHistory(source.path, localPath, limit)
+          };
+          
+          if (from) {
+            const page = paginateContent(await getDocumentDiff(source.path, localPath, from, to), max_tokens, cursor);
+            responseData.diff = {
+              from,
+              to: to || 'HEAD',
+              content: page.content,
+              total_tokens: page.totalTokens,
+              next_cursor: page.nextCursor
+            };
+          }
+          
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify(responseData, null, 2)
+            }]
+          };
+        }
+
+        case 'recent_changes': {
+          const { since, source, category, path, author, sort, limit } = request.params.arguments as any;
+          if (!source && isNamespaced()) {
+            throw new Error(`Several sources are indexed; pass source as one of: ${this.sources.map(entry => entry.id).join(', ')}`);
+          }
+          const changeSource = source ? requireSource(source) : this.sources[0];
+          const changes = await findRecentChanges(changeSource, this.documents, { since, category, path, author, sort, limit });
+          
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify(changes, null, 2)
+            }]
+          };
+        }
+
+        case 'audit_links': {
+          const { category, include_orphans = true, limit = 100 } = (request.params.arguments || {}) as any;
+          const report = auditLinks(this.documents, { category });
+          
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                checkedDocuments: report.checkedDocuments,
+                checkedLinks: report.checkedLinks,
+                totals: {
+                  brokenLinks: report.brokenLinks.length,
+                  missingAnchors: report.missingAnchors.length,
+                  ambiguousLinks: report.ambiguousLinks.length,
+                  orphans: report.orphans.length
+                },
+                brokenLinks: report.brokenLinks.slice(0, limit),
+                missingAnchors: report.missingAnchors.slice(0, limit),
+                ambiguousLinks: report.ambiguousLinks.slice(0, limit),
+                orphans: include_orphans ? report.orphans.slice(0, limit) : undefined
+              }, null, 2)
+            }]
+          };
+        }
+
+        case 'get_document_graph': {
+          const { path, depth = 1, direction = 'both', edge_types, format } = request.params.arguments as any;
+          const graph = buildDocumentGraph(this.documents);
+          const neighborhood = getNeighborhood(graph, path, depth, { direction, edgeTypes: edge_types });
+          
+          return {
+            content: [{
+              type: 'text',
+              text: formatGraph(neighborhood, format)
+            }]
+          };
+        }
+
+        case 'find_document_path': {
+          const { from, to, direction = 'out', edge_types, format } = request.params.arguments as any;
+          const graph = buildDocumentGraph(this.documents);
+          const route = findShortestPath(graph, from, to, { direction, edgeTypes: edge_types });
+          
+          if (!route) {
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({ from, to, found: false }, null, 2)
+              }]
+            };
+          }
+          
+          return {
+            content: [{
+              type: 'text',
+              text: formatGraph(route, format)
+            }]
+          };
+        }
+
+        case 'get_reading_order': {
+          const { path, category, path_prefix, format } = (request.params.arguments || {}) as any;
+          if (!path && !category && !path_prefix) {
+            throw new Error('Provide a path, category or path_prefix to build a reading order for');
+          }
+          
+          const graph = buildDocumentGraph(this.documents);
+          const order = getReadingOrder(graph, { path, category, prefix: path_prefix });
+          
+          return {
+            content: [{
+              type: 'text',
+              text: formatGraph(order, format)
+            }]
+          };
+        }
+
+        case 'find_similar': {
+          const { path, category, min_score, limit } = request.params.arguments as any;
+          const similar = findSimilarDocuments(getSharedSimilarityIndex(this.documents), path, { category, minScore: min_score, limit });
+          
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ path, count: similar.length, similar }, null, 2)
+            }]
+          };
+        }
+
+        case 'find_duplicates': {
+          const { threshold, category, path, limit = 50 } = (request.params.arguments || {}) as any;
+          const report = findDuplicateClusters(getSharedSimilarityIndex(this.documents), { threshold, category, path });
+          
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                threshold: report.threshold,
+                checkedDocuments: report.checkedDocuments,
+                totalClusters: report.clusters.length,
+                duplicateDocuments: report.clusters.reduce((sum, cluster) => sum + cluster.documents.length - 1, 0),
+                clusters: report.clusters.slice(0, limit)
+              }, null, 2)
+            }]
+          };
+        }
+
+        case 'freshness_report': {
+          const { category, limit = 5, max_score } = (request.params.arguments || {}) as any;
+          const documents = category ? this.documents.filter(doc => doc.category === category) : this.documents;
+          if (category && documents.length === 0) {
+            throw new Error(`Unknown category: ${category}`);
+          }
+          const categories = buildFreshnessReport(documents, { limit, maxScore: max_score });
+          
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                documentCount: documents.length,
+                outdatedCount: categories.reduce((sum, entry) => sum + entry.outdatedCount, 0),
+                categories
+              }, null, 2)
+            }]
+          };
+        }
+
+        case 'browse_tree': {
+          const { path = '', depth = 1 } = (request.params.arguments || {}) as any;
+          if (!(Number.isInteger(depth) && depth >= 0)) {
+            throw new Error('depth must be a whole number of 0 or more');
+          }
+          
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify(browseTree(this.documents, path, depth), null, 2)
+            }]
+          };
+        }
+
         case 'list_categories': {
-          const categories = new Set(this.documents.map(doc => doc.category).filter(Boolean));
+          const { source } = (request.params.arguments || {}) as any;
+          if (source !== undefined) requireSource(source);
+          const documents = source ? this.documents.filter(doc => doc.source === source) : this.documents;
           
           return {
             content: [{
               type: 'text',
               text: JSON.stringify({
-                categories: Array.from(categories).sort()
+                sources: this.sources.map(entry => ({
+                  id: entry.id,
+                  repository: entry.repository,
+                  documentCount: this.documents.filter(doc => doc.source === entry.id).length
+                })),
+                categories: summarizeCategories(documents)
               }, null, 2)
             }]
           };
@@ -241,11 +1242,138 @@ class VaDocsMcpServer {
 
   async start() {
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    const server = this.createServer();
+    await server.connect(transport);
     console.error('VA Docs MCP Server started');
+
+    // The stdio transport doesn't notice the client going away, and an open
+    // watcher would keep an orphaned server running
+    process.stdin.once('end', () => {
+      this.watcher?.close();
+      server.close().finally(() => process.exit(0));
+    });
+
+    // Load eagerly in watch mode so changes are tracked from startup
+    if (this.watchEnabled) {
+      await this.loadDocuments();
+    }
+  }
+
+  // Serve many clients at once over Streamable HTTP until SIGINT or SIGTERM
+  async startHttp(options: HttpServerOptions) {
+    if (!options.token && !['127.0.0.1', 'localhost', '::1'].includes(options.host)) {
+      console.error(`Warning: listening on ${options.host} without VA_DOCS_HTTP_TOKEN; anyone who can reach it can use it`);
+    }
+    
+    const http = await startHttpServer(this, options);
+    console.error(`VA Docs MCP Server listening on ${http.url}${options.token ? ' (bearer token required)' : ''}`);
+    
+    let stopping = false;
+    const shutdown = async (signal: string) => {
+      if (stopping) {
+        console.error('Forcing exit');
+        process.exit(1);
+      }
+      stopping = true;
+      console.error(`Received ${signal}, shutting down`);
+      await http.close();
+      this.watcher?.close();
+      process.exit(0);
+    };
+    process.on('SIGINT', () => shutdown('SIGINT'));
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+    
+    // Load up front so the first client doesn't wait for indexing
+    await this.loadDocuments();
+  }
+}
+
+const DEFAULT_HTTP_PORT = 3000;
+
+export interface ServeOptions {
+  watch?: boolean;
+  http?: boolean;    // Streamable HTTP instead of stdio
+  port?: string;     // Defaults to VA_DOCS_HTTP_PORT, then 3000
+  host?: string;     // Defaults to VA_DOCS_HTTP_HOST, then 127.0.0.1
+}
+
+// The token only comes from VA_DOCS_HTTP_TOKEN, so it stays out of ps output
+function readHttpOptions(options: ServeOptions): HttpServerOptions {
+  const rawPort = options.port ?? process.env.VA_DOCS_HTTP_PORT ?? String(DEFAULT_HTTP_PORT);
+  const port = Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${rawPort}`);
+  }
+  
+  return {
+    host: options.host ?? process.env.VA_DOCS_HTTP_HOST ?? '127.0.0.1',
+    port,
+    token: process.env.VA_DOCS_HTTP_TOKEN || undefined
+  };
+}
+
+// Start the server over stdio, or over HTTP with options.http
+export function runServer(options: ServeOptions = {}) {
+  const watch = options.watch || ['1', 'true'].includes((process.env.VA_DOCS_WATCH || '').toLowerCase());
+  const server = new VaDocsMcpServer({ watch });
+  if (options.http) {
+    Promise.resolve()
+      .then(() => server.startHttp(readHttpOptions(options)))
+      .catch(error => {
+        console.error('Could not start HTTP server:', error);
+        process.exit(1);
+      });
+  } else {
+    server.start().catch(console.error);
+  }
+}
+
+// Page position in file lines, given the file line the paged text starts on
+function formatPage(page: ContentPage, firstLine: number) {
+  return {
+    startLine: page.startLine + firstLine - 1,
+    endLine: page.endLine + firstLine - 1,
+    total_tokens: page.totalTokens,
+    next_cursor: page.nextCursor
+  };
+}
+
+function formatRetrieval(result: RankedDocument) {
+  return {
+    keywordRank: result.keywordRank,
+    semanticRank: result.semanticRank,
+    semanticScore: result.semantic && Math.round(result.semantic.score * 1000) / 1000,
+    semanticMatch: result.semantic && { heading: result.semantic.heading, startLine: result.semantic.startLine }
+  };
+}
+
+// isOutdated repeats status, so it stays internal
+function formatFreshness(doc: Document) {
+  const { score, status, reasons } = assessFreshness(doc);
+  return { score, status, reasons };
+}
+
+function formatBestSection(section: DocumentSection | undefined) {
+  return section
+    ? { heading: section.heading, anchor: section.anchor, startLine: section.startLine }
+    : undefined;
+}
+
+// Start the server when run directly rather than imported, e.g. by the CLI.
+// Symlinked bin entries still count as running this file.
+function isEntryPoint(): boolean {
+  try {
+    return Boolean(process.argv[1]) && realpathSync(process.argv[1]) === fileURLToPath(import.meta.url);
+  } catch (error) {
+    return false;
   }
 }
 
-// Start the server
-const server = new VaDocsMcpServer();
-server.start().catch(console.error);
\ No newline at end of file
+if (isEntryPoint()) {
+  const args = process.argv.slice(2);
+  const flag = (name: string) => {
+    const index = args.indexOf(name);
+    return index === -1 ? undefined : args[index + 1];
+  };
+  runServer({ watch: args.includes('--watch'), http: args.includes('--http'), port: flag('--port'), host: flag('--host') });
+}
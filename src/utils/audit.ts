@@ -0,0 +1,144 @@
+import { Document, createDocumentMap, matchDocumentPath, parseLinkUrl } from './docs.js';
+import { findSectionByAnchor, scanLines } from './markdown.js';
+
+export interface LinkIssue {
+  source: string;        // Relative path of the linking document
+  line: number;          // 1-based line in the source file
+  link: string;          // The URL as written
+  target?: string;       // Document the link resolved to, if any
+  anchor?: string;
+  candidates?: string[]; // Every document a fuzzy link could have meant
+}
+
+export interface OrphanDocument {
+  path: string;
+  title: string;
+}
+
+export interface LinkAuditReport {
+  checkedDocuments: number;
+  checkedLinks: number;
+  brokenLinks: LinkIssue[];      // Point at no document
+  missingAnchors: LinkIssue[];   // Document exists, heading anchor doesn't
+  ambiguousLinks: LinkIssue[];   // Only resolved by partial path matching
+  orphans: OrphanDocument[];     // No other document links to them
+}
+
+export interface LinkAuditOptions {
+  category?: string;
+}
+
+interface LinkOccurrence {
+  url: string;
+  line: number;
+}
+
+const INLINE_LINK = /\[[^\]]*\]\(([^)\s]+(?:\s+"[^"]*")?)\)/g;
+const REFERENCE_DEFINITION = /^ {0,3}\[[^\]]+\]:\s*(\S+)/;
+// Explicit HTML anchors are valid link targets alongside heading slugs
+const HTML_ANCHOR = /<a\s+[^>]*(?:name|id)\s*=\s*["']([^"']+)["']/gi;
+
+// Every link in a document with the file line it appears on, skipping
+// fenced code and inline code spans
+function findLinks(doc: Document): LinkOccurrence[] {
+  const links: LinkOccurrence[] = [];
+  const firstLine = doc.bodyStartLine || 1;
+
+  scanLines(doc.content).forEach((line, index) => {
+    if (line.inFence) return;
+    const text = line.text.replace(/`[^`]*`/g, '');
+    const lineNumber = index + firstLine;
+
+    for (const match of text.matchAll(INLINE_LINK)) {
+      links.push({ url: match[1], line: lineNumber });
+    }
+    const reference = text.match(REFERENCE_DEFINITION);
+    if (reference) {
+      links.push({ url: reference[1], line: lineNumber });
+    }
+  });
+
+  return links;
+}
+
+function hasAnchor(doc: Document, anchor: string): boolean {
+  if (findSectionByAnchor(doc.sections || [], anchor)) return true;
+  const wanted = anchor.toLowerCase();
+  return Array.from(doc.content.matchAll(HTML_ANCHOR)).some(match => match[1].toLowerCase() === wanted);
+}
+
+function decodeAnchor(anchor: string): string {
+  try {
+    return decodeURIComponent(anchor);
+  } catch (error) {
+    return anchor;
+  }
+}
+
+// Check every internal link the way the relationship index resolves them,
+// so the report matches what search and related-document results see
+export function auditLinks(documents: Document[], options: LinkAuditOptions = {}): LinkAuditReport {
+  const docMap = createDocumentMap(documents);
+  const inCategory = (doc: Document) => !options.category || doc.category === options.category;
+
+  const report: LinkAuditReport = {
+    checkedDocuments: 0,
+    checkedLinks: 0,
+    brokenLinks: [],
+    missingAnchors: [],
+    ambiguousLinks: [],
+    orphans: []
+  };
+
+  for (const doc of documents) {
+    if (!inCategory(doc)) continue;
+    report.checkedDocuments++;
+
+    for (const { url, line } of findLinks(doc)) {
+      const issue: LinkIssue = { source: doc.relativePath, line, link: url };
+
+      // Links within the same document only need their anchor checked
+      if (url.startsWith('#')) {
+        report.checkedLinks++;
+        const anchor = decodeAnchor(url.slice(1));
+        if (anchor && !hasAnchor(doc, anchor)) {
+          report.missingAnchors.push({ ...issue, target: doc.relativePath, anchor });
+        }
+        continue;
+      }
+
+      const target = parseLinkUrl(url, doc.relativePath);
+      if (!target) continue;
+      report.checkedLinks++;
+
+      const match = matchDocumentPath(target.path, docMap);
+      if (!match) {
+        report.brokenLinks.push(issue);
+        continue;
+      }
+
+      if (match.fuzzy) {
+        const candidates = documents
+          .map(candidate => candidate.relativePath)
+          .filter(path => path.includes(target.path));
+        report.ambiguousLinks.push({ ...issue, target: match.doc.relativePath, candidates });
+      }
+
+      if (target.anchor) {
+        const anchor = decodeAnchor(target.anchor);
+        if (!hasAnchor(match.doc, anchor)) {
+          report.missingAnchors.push({ ...issue, target: match.doc.relativePath, anchor });
+        }
+      }
+    }
+  }
+
+  // Self-links don't count as something linking to a document
+  report.orphans = documents
+    .filter(doc => inCategory(doc))
+    .filter(doc => !(doc.relationships?.dependents || []).some(edge => edge.path !== doc.relativePath))
+    .map(doc => ({ path: doc.relativePath, title: doc.title }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  return report;
+}
@@ -0,0 +1,272 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join, relative } from 'path';
+import {
+  Document,
+  DocumentChanges,
+  buildRelationshipIndex,
+  findDocuments,
+  parseDocument,
+  updateRelationshipIndex
+} from './docs.js';
+import { SourceHistories, applySourceHistories, readSourceHistories } from './git.js';
+import { getInferenceSignature } from './inference.js';
+import { getDocumentTypeSignature } from './scoring.js';
+import { DocSource, getSourceSignature, toDocumentPath } from './sources.js';
+
+// Bump whenever parsing or the shape of Document changes so stale caches
+// are thrown away instead of being served
+const CACHE_VERSION = 8;
+
+export interface FileFingerprint {
+  mtimeMs: number;
+  size: number;
+  hash: string;  // sha256 of the raw file content
+}
+
+interface CachedFile extends FileFingerprint {
+  document: Document;  // Parsed record, including its relationships
+}
+
+interface IndexCache {
+  version: number;
+  sources: string;  // Sources the documents were read from
+  files: Record<string, CachedFile>;  // Keyed by relative path
+  git?: SourceHistories;
+  inference?: string;  // Inference rule settings the relationships were built with
+  documentTypes?: string;  // Document type rules the documents were parsed with
+}
+
+export interface LoadStats {
+  reused: number;
+  parsed: number;
+  removed: number;
+  cacheStatus: 'hit' | 'missing' | 'invalid' | 'disabled';
+}
+
+export function getCachePath(sources: DocSource[]): string {
+  const cacheDir = process.env.VA_DOCS_CACHE_DIR || join(homedir(), '.cache', 'va-docs-mcp');
+  const key = createHash('sha256').update(sources.map(source => source.path).join('\n')).digest('hex').slice(0, 16);
+  return join(cacheDir, `index-${key}.json`);
+}
+
+export function isCacheEnabled(): boolean {
+  return !['0', 'false', 'off'].includes((process.env.VA_DOCS_CACHE || '').toLowerCase());
+}
+
+function hashContent(content: Buffer | string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function readIndexCache(cachePath: string): IndexCache | null {
+  if (!existsSync(cachePath)) {
+    return null;
+  }
+
+  let cache: IndexCache;
+  try {
+    cache = JSON.parse(readFileSync(cachePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Index cache at ${cachePath} is corrupt: ${(error as Error).message}`);
+  }
+
+  if (!cache || typeof cache !== 'object' || cache.version !== CACHE_VERSION) {
+    throw new Error(`Index cache at ${cachePath} has version ${cache?.version}, expected ${CACHE_VERSION}`);
+  }
+  if (cache.sources !== getSourceSignature()) {
+    throw new Error(`Index cache at ${cachePath} was built for different sources`);
+  }
+  if (cache.documentTypes !== getDocumentTypeSignature()) {
+    throw new Error(`Index cache at ${cachePath} was built with different document type rules`);
+  }
+  if (!cache.files || typeof cache.files !== 'object') {
+    throw new Error(`Index cache at ${cachePath} has no file table`);
+  }
+
+  for (const [relativePath, entry] of Object.entries(cache.files)) {
+    if (
+      typeof entry?.mtimeMs !== 'number' ||
+      typeof entry.size !== 'number' ||
+      typeof entry.hash !== 'string' ||
+      entry.document?.relativePath !== relativePath
+    ) {
+      throw new Error(`Index cache at ${cachePath} has a malformed entry for ${relativePath}`);
+    }
+    // JSON turns dates into strings
+    if (entry.document.lastModified) {
+      entry.document.lastModified = new Date(entry.document.lastModified);
+    }
+  }
+
+  return cache;
+}
+
+export function fingerprintFile(filePath: string): FileFingerprint {
+  const stats = statSync(filePath);
+  return { mtimeMs: stats.mtimeMs, size: stats.size, hash: hashContent(readFileSync(filePath)) };
+}
+
+// Fingerprints already known are reused; missing ones are computed and
+// added to the map so the next write doesn't read those files again
+export function writeIndexCache(
+  cachePath: string,
+  documents: Document[],
+  fingerprints: Map<string, FileFingerprint> = new Map(),
+  git: SourceHistories = {}
+): void {
+  const files: Record<string, CachedFile> = {};
+
+  for (const doc of documents) {
+    try {
+      let fingerprint = fingerprints.get(doc.relativePath);
+      if (!fingerprint) {
+        fingerprint = fingerprintFile(doc.path);
+        fingerprints.set(doc.relativePath, fingerprint);
+      }
+      files[doc.relativePath] = { ...fingerprint, document: doc };
+    } catch (error) {
+      // File vanished since it was parsed; it will be picked up next load
+    }
+  }
+
+  const cache: IndexCache = {
+    version: CACHE_VERSION,
+    sources: getSourceSignature(),
+    files,
+    git,
+    inference: getInferenceSignature(),
+    documentTypes: getDocumentTypeSignature()
+  };
+
+  // Write to a temporary file first so a crash can't leave a half-written cache
+  mkdirSync(dirname(cachePath), { recursive: true });
+  const tempPath = `${cachePath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(cache));
+  renameSync(tempPath, cachePath);
+}
+
+// Load every document under the sources' roots, re-parsing only files whose
+// content changed since the cached index was written
+export interface LoadResult {
+  documents: Document[];
+  fingerprints: Map<string, FileFingerprint>;
+  git: SourceHistories;  // Only the sources that are git checkouts
+  stats: LoadStats;
+}
+
+// Heads of every source's history, to tell whether any has moved
+function describeHeads(git: SourceHistories = {}): string {
+  return JSON.stringify(Object.entries(git).map(([id, history]) => [id, history.head]));
+}
+
+export async function loadDocumentsWithCache(sources: DocSource[]): Promise<LoadResult> {
+  const files: { file: string; source: DocSource }[] = [];
+  for (const source of sources) {
+    (await findDocuments(source.path)).forEach(file => files.push({ file, source }));
+  }
+
+  if (!isCacheEnabled()) {
+    const documents = files
+      .map(({ file, source }) => parseDocument(file, source))
+      .filter((doc): doc is Document => doc !== null);
+    buildRelationshipIndex(documents);
+    const git = await readSourceHistories(sources);
+    await applySourceHistories(documents, sources, git);
+    return {
+      documents,
+      fingerprints: new Map(),
+      git,
+      stats: { reused: 0, parsed: documents.length, removed: 0, cacheStatus: 'disabled' }
+    };
+  }
+
+  const cachePath = getCachePath(sources);
+  let cache: IndexCache | null = null;
+  let cacheStatus: LoadStats['cacheStatus'] = 'missing';
+  try {
+    cache = readIndexCache(cachePath);
+    if (cache) cacheStatus = 'hit';
+  } catch (error) {
+    console.error(`${(error as Error).message}; rebuilding index`);
+    cacheStatus = 'invalid';
+  }
+
+  const documents: Document[] = [];
+  const fingerprints = new Map<string, FileFingerprint>();
+  const changes: DocumentChanges = { added: [], modified: [], removed: [] };
+  const seen = new Set<string>();
+  let contentUnchanged = 0;
+
+  for (const { file, source } of files) {
+    const relativePath = toDocumentPath(source, relative(source.path, file));
+    seen.add(relativePath);
+    const cached = cache?.files[relativePath];
+
+    if (cached) {
+      try {
+        const stats = statSync(file);
+        if (stats.isDirectory()) continue;
+
+        if (stats.mtimeMs === cached.mtimeMs && stats.size === cached.size) {
+          documents.push(cached.document);
+          fingerprints.set(relativePath, cached);
+          continue;
+        }
+
+        // Touched but identical (e.g. a branch switch and back) still counts as unchanged
+        const hash = hashContent(readFileSync(file));
+        if (hash === cached.hash) {
+          cached.document.lastModified = stats.mtime;
+          documents.push(cached.document);
+          fingerprints.set(relativePath, { mtimeMs: stats.mtimeMs, size: stats.size, hash });
+          contentUnchanged++;
+          continue;
+        }
+      } catch (error) {
+        // Fall through and let parseDocument report the problem
+      }
+    }
+
+    const doc = parseDocument(file, source);
+    if (doc) {
+      documents.push(doc);
+      (cached ? changes.modified : changes.added).push(relativePath);
+    }
+  }
+
+  if (cache) {
+    changes.removed = Object.keys(cache.files).filter(path => !seen.has(path));
+  }
+
+  const parsed = changes.added.length + changes.modified.length;
+  const stats: LoadStats = {
+    reused: documents.length - parsed,
+    parsed,
+    removed: changes.removed.length,
+    cacheStatus
+  };
+
+  // Relationships inferred under different rule settings are all stale
+  const rulesChanged = cache !== null && cache.inference !== getInferenceSignature();
+  if (!cache || rulesChanged) {
+    buildRelationshipIndex(documents);
+  } else if (parsed > 0 || changes.removed.length > 0) {
+    updateRelationshipIndex(documents, changes);
+  }
+
+  // Dates come from git, not the files, so apply them to cached documents too
+  const git = await readSourceHistories(sources, cache?.git);
+  await applySourceHistories(documents, sources, git);
+  const gitChanged = describeHeads(git) !== describeHeads(cache?.git);
+
+  if (!cache || rulesChanged || parsed > 0 || changes.removed.length > 0 || contentUnchanged > 0 || gitChanged) {
+    try {
+      writeIndexCache(cachePath, documents, fingerprints, git);
+    } catch (error) {
+      console.error(`Could not write index cache to ${cachePath}:`, error);
+    }
+  }
+
+  return { documents, fingerprints, git, stats };
+}
@@ -0,0 +1,176 @@
+import matter from 'gray-matter';
+import { Document, createDocumentMap, extractTitleFromContent } from './docs.js';
+import { DocumentSection, flattenSections, getSectionContent, parseHeadingTree } from './markdown.js';
+import { matchesPathPattern } from './query.js';
+import { FileChange, GitCommit, getChangedFiles, getFileCommits, getGitHead, readFileAtRevision, resolveSince } from './git.js';
+import { DocSource, toDocumentPath } from './sources.js';
+
+const DEFAULT_CHANGE_LIMIT = 50;
+
+export interface RecentChangesOptions {
+  since: string;       // Date ("2024-06-01", "2 weeks ago") or git revision
+  category?: string;
+  path?: string;       // Glob, matched like the path: search filter
+  author?: string;     // Part of an author's name or email
+  sort?: 'recent' | 'path';
+  limit?: number;
+}
+
+export interface SectionChanges {
+  added: string[];     // Heading paths joined with " > "
+  removed: string[];
+  modified: string[];  // Same heading, different text
+}
+
+export interface ChangedDocument {
+  path: string;
+  previousPath?: string;
+  status: FileChange['status'];
+  title: string;
+  summary?: string;
+  lastChanged?: string;
+  authors: string[];
+  commits: number;
+  additions?: number;
+  deletions?: number;
+  sections?: SectionChanges;
+}
+
+export interface RecentChanges {
+  since: string;
+  base: string;
+  head: string;
+  total: number;
+  counts: Record<FileChange['status'], number>;
+  changes: ChangedDocument[];
+}
+
+interface ParsedRevision {
+  title: string | null;
+  content: string;
+  sections: DocumentSection[];
+}
+
+function parseRevision(raw: string): ParsedRevision {
+  let data: Record<string, any> = {};
+  let content = raw;
+  try {
+    const parsed = matter(raw);
+    data = parsed.data;
+    content = parsed.content;
+  } catch (error) {
+    // Broken frontmatter; treat the whole file as markdown
+  }
+  return { title: data.title || extractTitleFromContent(content), content, sections: parseHeadingTree(content) };
+}
+
+// Compare heading trees by heading path; repeated paths are told apart by
+// the order they appear in
+function diffSections(before: ParsedRevision, after: ParsedRevision): SectionChanges {
+  const keyed = (revision: ParsedRevision) => {
+    const sections = new Map<string, string>();
+    const seen = new Map<string, number>();
+    for (const section of flattenSections(revision.sections)) {
+      const path = section.headingPath.join(' > ');
+      const count = seen.get(path) || 0;
+      seen.set(path, count + 1);
+      sections.set(count === 0 ? path : `${path} (${count + 1})`, getSectionContent(revision.content, section, false));
+    }
+    return sections;
+  };
+
+  const old = keyed(before);
+  const current = keyed(after);
+  return {
+    added: [...current.keys()].filter(key => !old.has(key)),
+    removed: [...old.keys()].filter(key => !current.has(key)),
+    modified: [...current.keys()].filter(key => old.has(key) && old.get(key) !== current.get(key))
+  };
+}
+
+function matchesAuthor(commits: GitCommit[], author: string): boolean {
+  const wanted = author.toLowerCase();
+  return commits.some(commit =>
+    commit.author.toLowerCase().includes(wanted) || commit.email.toLowerCase().includes(wanted)
+  );
+}
+
+// Documents in one source added, modified, deleted or renamed since a date
+// or revision. Changes are between commits; uncommitted edits are not included.
+export async function findRecentChanges(
+  source: DocSource,
+  documents: Document[],
+  options: RecentChangesOptions
+): Promise<RecentChanges> {
+  const docsPath = source.path;
+  const { since, category, path, author, sort = 'recent', limit = DEFAULT_CHANGE_LIMIT } = options;
+  const head = await getGitHead(docsPath);
+  if (!head) {
+    throw new Error(`Recent changes need a git checkout, and ${docsPath} is not one`);
+  }
+
+  const base = await resolveSince(docsPath, since);
+  const [files, commitsByPath] = await Promise.all([
+    getChangedFiles(docsPath, base, head),
+    getFileCommits(docsPath, base, head)
+  ]);
+
+  const inScope = (filePath: string) =>
+    (!category || (filePath.split('/')[0] || 'general') === category) &&
+    (!path || matchesPathPattern(toDocumentPath(source, filePath), path));
+
+  const matching = files.filter(change => {
+    if (!inScope(change.path) && !(change.previousPath && inScope(change.previousPath))) return false;
+    return !author || matchesAuthor(commitsByPath.get(change.path) || [], author);
+  });
+
+  const docMap = createDocumentMap(documents);
+  const entries = matching.map((change): ChangedDocument => {
+    const commits = commitsByPath.get(change.path) || [];
+    const doc = change.status === 'deleted' ? undefined : docMap.get(toDocumentPath(source, change.path));
+    return {
+      path: change.path,
+      previousPath: change.previousPath,
+      status: change.status,
+      title: doc?.title || change.path,
+      summary: doc?.summary,
+      lastChanged: commits[0]?.date,
+      authors: Array.from(new Set(commits.map(commit => commit.author))),
+      commits: commits.length,
+      additions: change.additions,
+      deletions: change.deletions
+    };
+  });
+
+  entries.sort((a, b) =>
+    sort === 'path'
+      ? a.path.localeCompare(b.path)
+      : (Date.parse(b.lastChanged || '') || 0) - (Date.parse(a.lastChanged || '') || 0) || a.path.localeCompare(b.path)
+  );
+
+  // Reading old revisions is the slow part, so only do it for what's returned
+  const page = entries.slice(0, limit);
+  for (const entry of page) {
+    const before = entry.status === 'added' ? null : await readFileAtRevision(docsPath, base, entry.previousPath || entry.path);
+    const after = entry.status === 'deleted' ? null : await readFileAtRevision(docsPath, head, entry.path);
+    const old = before === null ? null : parseRevision(before);
+    if (entry.status === 'deleted' && old?.title) {
+      entry.title = old.title;
+    }
+    if (old && after !== null) {
+      entry.sections = diffSections(old, parseRevision(after));
+    }
+  }
+
+  const counts: Record<FileChange['status'], number> = { added: 0, modified: 0, deleted: 0, renamed: 0 };
+  entries.forEach(entry => counts[entry.status]++);
+
+  // Git paths are relative to the source; report document paths
+  const changes = page.map(entry => ({
+    ...entry,
+    path: toDocumentPath(source, entry.path),
+    previousPath: entry.previousPath && toDocumentPath(source, entry.previousPath)
+  }));
+
+  return { since, base, head, total: entries.length, counts, changes };
+}
@@ -0,0 +1,240 @@
+import { createHash } from 'crypto';
+import { scanLines } from './markdown.js';
+
+// Rough token estimate for English markdown; good enough for budgeting
+const CHARS_PER_TOKEN = 4;
+
+// Below this a page is too small to be useful, however tight the budget
+export const MIN_PAGE_TOKENS = 100;
+
+export interface ContentChunk {
+  startOffset: number;  // Character offsets into the chunked text
+  endOffset: number;
+  tokens: number;
+}
+
+export interface Block {
+  startOffset: number;
+  endOffset: number;
+  kind: 'heading' | 'code' | 'table' | 'text';
+}
+
+export interface ContentPage {
+  content: string;
+  startOffset: number;
+  endOffset: number;
+  startLine: number;  // 1-based lines within the paged text
+  endLine: number;
+  totalTokens: number;
+  nextCursor?: string;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Split markdown into blocks that must not be cut: headings, whole fenced
+// code blocks, whole tables, and paragraphs or list runs between blank lines
+export function splitIntoBlocks(content: string): Block[] {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+
+  const finish = () => {
+    if (current) blocks.push(current);
+    current = null;
+  };
+
+  for (const line of scanLines(content)) {
+    const lineEnd = line.offset + line.text.length;
+    const kind: Block['kind'] = line.inFence
+      ? 'code'
+      : /^ {0,3}#{1,6}[ \t]/.test(line.text)
+        ? 'heading'
+        : /^\s*\|/.test(line.text)
+          ? 'table'
+          : 'text';
+
+    if (kind === 'heading') {
+      finish();
+      blocks.push({ startOffset: line.offset, endOffset: lineEnd, kind });
+      continue;
+    }
+
+    if (kind === 'text' && line.text.trim() === '') {
+      finish();
+      continue;
+    }
+
+    if (current && (current as Block).kind === kind) {
+      (current as Block).endOffset = lineEnd;
+    } else {
+      finish();
+      current = { startOffset: line.offset, endOffset: lineEnd, kind };
+    }
+  }
+  finish();
+
+  return blocks;
+}
+
+// Oversized prose is split on line boundaries; code and tables stay whole
+// even when they alone exceed the budget
+function splitOversizedBlock(content: string, block: Block, maxTokens: number): Block[] {
+  if (block.kind !== 'text' || estimateTokens(content.slice(block.startOffset, block.endOffset)) <= maxTokens) {
+    return [block];
+  }
+
+  const pieces: Block[] = [];
+  let start = block.startOffset;
+  let lineStart = start;
+  while (lineStart < block.endOffset) {
+    let lineEnd = content.indexOf('\n', lineStart);
+    if (lineEnd === -1 || lineEnd > block.endOffset) lineEnd = block.endOffset;
+
+    if (lineStart > start && estimateTokens(content.slice(start, lineEnd)) > maxTokens) {
+      pieces.push({ startOffset: start, endOffset: lineStart - 1, kind: 'text' });
+      start = lineStart;
+    }
+    lineStart = lineEnd + 1;
+  }
+  pieces.push({ startOffset: start, endOffset: block.endOffset, kind: 'text' });
+  return pieces;
+}
+
+export function chunkMarkdown(content: string, maxTokens: number): ContentChunk[] {
+  const budget = Math.max(maxTokens, MIN_PAGE_TOKENS);
+  const blocks = splitIntoBlocks(content).flatMap(block => splitOversizedBlock(content, block, budget));
+  const chunks: ContentChunk[] = [];
+  let current: ContentChunk | null = null;
+  let previous: Block | null = null;
+
+  for (const block of blocks) {
+    let startOffset = block.startOffset;
+    if (current) {
+      const tokens = estimateTokens(content.slice(current.startOffset, block.endOffset));
+      // Prefer to start a new page at a heading once the current one is half full
+      const breakAtHeading = block.kind === 'heading' && current.tokens >= budget / 2;
+      if (tokens <= budget && !breakAtHeading) {
+        current.endOffset = block.endOffset;
+        current.tokens = tokens;
+        previous = block;
+        continue;
+      }
+      // Don't strand a heading at the bottom of a page without its text
+      if (previous?.kind === 'heading' && previous.startOffset > current.startOffset) {
+        current.endOffset = previous.startOffset - 1;
+        startOffset = previous.startOffset;
+      }
+      current.tokens = estimateTokens(content.slice(current.startOffset, current.endOffset));
+      chunks.push(current);
+    }
+    current = {
+      startOffset,
+      endOffset: block.endOffset,
+      tokens: estimateTokens(content.slice(startOffset, block.endOffset))
+    };
+    previous = block;
+  }
+  if (current) chunks.push(current);
+
+  // Pages tile the text so nothing between blocks (blank lines) is lost
+  chunks.forEach((chunk, index) => {
+    chunk.startOffset = index === 0 ? 0 : chunks[index - 1].endOffset;
+  });
+  if (chunks.length > 0) {
+    chunks[chunks.length - 1].endOffset = content.length;
+  }
+
+  return chunks;
+}
+
+function lineAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < text.length; i++) {
+    if (text[i] === '\n') line++;
+  }
+  // An offset just past a trailing newline still belongs to the previous line
+  return offset > 0 && text[offset - 1] === '\n' ? line - 1 : line;
+}
+
+interface CursorState {
+  offset: number;
+  maxTokens: number;
+  hash: string;  // Fingerprint of the paged text, to catch edits between pages
+}
+
+function fingerprintText(text: string): string {
+  return createHash('sha1').update(text).digest('hex').slice(0, 12);
+}
+
+function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): CursorState {
+  try {
+    const state = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (Number.isInteger(state.offset) && Number.isInteger(state.maxTokens) && typeof state.hash === 'string') {
+      return state;
+    }
+  } catch (error) {
+    // Fall through to the error below
+  }
+  throw new Error(`Invalid cursor: ${cursor}`);
+}
+
+// Return one page of text. A cursor carries the page size it was issued
+// with, so continuing always uses the same chunk boundaries.
+export function paginateContent(text: string, maxTokens?: number, cursor?: string): ContentPage {
+  const totalTokens = estimateTokens(text);
+  let offset = 0;
+  let pageTokens = maxTokens;
+
+  if (cursor) {
+    const state = decodeCursor(cursor);
+    if (state.hash !== fingerprintText(text)) {
+      throw new Error('Content changed since this cursor was issued; start again without a cursor');
+    }
+    offset = state.offset;
+    pageTokens = state.maxTokens;
+  }
+
+  const wholeText = () => ({
+    content: text,
+    startOffset: 0,
+    endOffset: text.length,
+    startLine: 1,
+    endLine: lineAt(text, text.length),
+    totalTokens
+  });
+
+  if (!pageTokens) {
+    return wholeText();
+  }
+
+  const chunks = chunkMarkdown(text, pageTokens);
+  const index = chunks.findIndex(chunk => chunk.startOffset === offset);
+  if (index === -1) {
+    if (chunks.length === 0 && offset === 0) {
+      return wholeText();
+    }
+    throw new Error(`Invalid cursor: no page starts at offset ${offset}`);
+  }
+
+  const chunk = chunks[index];
+  const next = chunks[index + 1];
+  // Blank lines between pages belong to neither page's content
+  let startOffset = chunk.startOffset;
+  while (text[startOffset] === '\n' && startOffset < chunk.endOffset) startOffset++;
+  return {
+    content: text.slice(startOffset, chunk.endOffset),
+    startOffset,
+    endOffset: chunk.endOffset,
+    startLine: lineAt(text, startOffset),
+    endLine: lineAt(text, chunk.endOffset),
+    totalTokens,
+    nextCursor: next
+      ? encodeCursor({ offset: next.startOffset, maxTokens: pageTokens, hash: fingerprintText(text) })
+      : undefined
+  };
+}
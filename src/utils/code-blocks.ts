@@ -0,0 +1,323 @@
+import type { Document } from './docs.js';
+import type { FacetCount } from './facets.js';
+import { DocumentSection, ScannedLine, findSectionAt, scanLines, stripInlineMarkdown } from './markdown.js';
+import { tokenize } from './search-index.js';
+import { matchesPathPattern } from './query.js';
+
+// Fenced code blocks are kept as offsets into the document content, so
+// the index cache doesn't store every example twice
+export interface CodeBlock {
+  language?: string;           // Normalized, e.g. "bash" for sh, shell and console
+  languageInferred?: boolean;  // The fence had no language; it was guessed from the code
+  info?: string;               // The fence's info string as written, e.g. "js title=app.js"
+  startLine: number;           // File lines of the opening and closing fences
+  endLine: number;
+  codeStartOffset: number;     // Character offsets of the code into the document content
+  codeEndOffset: number;
+  anchor?: string;             // Innermost section the block is in
+  headingPath: string[];
+  context?: string;            // The paragraph introducing the block, or else the one after it
+}
+
+export interface CodeSnippetIndex {
+  entries: { doc: Document; block: CodeBlock }[];
+  postings: Map<string, Posting[]>;
+  fieldLengths: number[][];       // Token count per block per field
+  averageFieldLengths: number[];
+}
+
+export interface CodeSearchOptions {
+  languages?: string[];
+  source?: string;
+  category?: string;
+  path?: string;       // Glob, matched like the path: search filter
+  limit?: number;
+  maxLines?: number;   // Longer code is cut to this many lines
+}
+
+export interface CodeSnippet {
+  path: string;
+  source?: string;
+  title: string;
+  language?: string;
+  languageInferred?: boolean;
+  info?: string;
+  headingPath: string[];
+  anchor?: string;
+  startLine: number;
+  endLine: number;
+  context?: string;
+  code: string;
+  lineCount: number;
+  truncated?: boolean;
+  score: number;
+  matchedTerms: string[];
+}
+
+export interface CodeSearchResult {
+  totalMatches: number;      // Before the limit
+  languages: FacetCount[];   // Of every match, whatever the language filter
+  snippets: CodeSnippet[];
+}
+
+interface Posting {
+  entryId: number;
+  frequencies: number[];  // Term frequency per field, in CODE_FIELDS order
+}
+
+// The explanation and headings say what a block is for, the code what it does
+const CODE_FIELDS = ['code', 'context', 'heading', 'title'] as const;
+const CODE_FIELD_WEIGHTS = [1, 2, 2, 1.5];
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const DEFAULT_SNIPPET_LIMIT = 10;
+const DEFAULT_MAX_LINES = 40;
+
+// About three sentences of lead-in
+const CONTEXT_CHARS = 300;
+const ELLIPSIS = '…';
+
+const HEADING = /^ {0,3}#{1,6}[ \t]/;
+const FENCE_INFO = /^\s*(?:`{3,}|~{3,})\s*(.*)$/;
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  console: 'bash',
+  'shell-session': 'bash',
+  shellsession: 'bash',
+  terminal: 'bash',
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'typescript',
+  yml: 'yaml',
+  rb: 'ruby',
+  py: 'python',
+  md: 'markdown',
+  jsonc: 'json',
+  txt: 'text',
+  plaintext: 'text'
+};
+
+// Untagged blocks that start like a terminal command are shell
+const SHELL_COMMAND = /^(\$\s|(curl|wget|npm|npx|yarn|bundle|rake|rails|git|docker|docker-compose|kubectl|aws|brew|make|cd|export|ssh)\b)/;
+
+export function normalizeLanguage(language: string): string {
+  const name = language.trim().toLowerCase().replace(/^[{.]+|}$/g, '');
+  return LANGUAGE_ALIASES[name] || name;
+}
+
+function inferLanguage(code: string): string | undefined {
+  const firstLine = code.split('\n').find(line => line.trim() !== '')?.trim() || '';
+  if (SHELL_COMMAND.test(firstLine)) return 'bash';
+  if (/^[{[]/.test(firstLine)) {
+    try {
+      JSON.parse(code);
+      return 'json';
+    } catch (error) {
+      // Not JSON after all
+    }
+  }
+  return undefined;
+}
+
+// The paragraph (or list) running up to, or down from, a line, stopping at
+// blank lines, headings and other code
+function readParagraph(lines: ScannedLine[], from: number, step: 1 | -1): string | undefined {
+  let index = from;
+  while (index >= 0 && index < lines.length && lines[index].text.trim() === '' && !lines[index].inFence) {
+    index += step;
+  }
+
+  const paragraph: string[] = [];
+  for (; index >= 0 && index < lines.length; index += step) {
+    const line = lines[index];
+    if (line.inFence || line.text.trim() === '' || HEADING.test(line.text)) break;
+    paragraph.push(line.text.trim());
+  }
+  if (paragraph.length === 0) return undefined;
+
+  const text = stripInlineMarkdown((step === -1 ? paragraph.reverse() : paragraph).join(' '))
+    .replace(/\*\*|__/g, '')
+    .replace(/\s+/g, ' ');
+  if (text.length <= CONTEXT_CHARS) return text;
+  const cut = text.slice(0, CONTEXT_CHARS);
+  return cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : CONTEXT_CHARS) + ELLIPSIS;
+}
+
+// firstLine is the file line the content starts on, as for parseHeadingTree
+export function extractCodeBlocks(content: string, sections: DocumentSection[], firstLine: number = 1): CodeBlock[] {
+  const lines = scanLines(content);
+  const blocks: CodeBlock[] = [];
+  // A trailing newline doesn't start another line
+  const lastLine = lines.length > 1 && lines[lines.length - 1].text === '' ? lines.length - 1 : lines.length;
+
+  for (let open = 0; open < lines.length; open++) {
+    if (lines[open].fence !== 'open') continue;
+
+    // An unclosed fence runs to the end of the document
+    let close = open + 1;
+    while (close < lastLine && lines[close].fence !== 'close') close++;
+
+    const codeStartOffset = open + 1 < lastLine ? lines[open + 1].offset : content.length;
+    let codeEndOffset = close < lastLine ? lines[close].offset : content.length;
+    while (codeEndOffset > codeStartOffset && content[codeEndOffset - 1] === '\n') codeEndOffset--;
+    const code = content.slice(codeStartOffset, codeEndOffset);
+    if (code.trim() === '') {
+      open = close;
+      continue;
+    }
+
+    const info = lines[open].text.match(FENCE_INFO)?.[1].trim() || undefined;
+    const tagged = info?.split(/\s+/)[0];
+    const inferred = tagged ? undefined : inferLanguage(code);
+    const section = findSectionAt(sections, lines[open].offset);
+
+    blocks.push({
+      language: tagged ? normalizeLanguage(tagged) : inferred,
+      languageInferred: inferred ? true : undefined,
+      info,
+      startLine: open + firstLine,
+      endLine: Math.min(close, lastLine - 1) + firstLine,
+      codeStartOffset,
+      codeEndOffset,
+      anchor: section?.anchor,
+      headingPath: section?.headingPath || [],
+      context: readParagraph(lines, open - 1, -1) || readParagraph(lines, close + 1, 1)
+    });
+    open = close;
+  }
+
+  return blocks;
+}
+
+export function getCodeBlockText(doc: Document, block: CodeBlock): string {
+  return doc.content.slice(block.codeStartOffset, block.codeEndOffset);
+}
+
+function getFieldText(doc: Document, block: CodeBlock, field: typeof CODE_FIELDS[number]): string {
+  switch (field) {
+    case 'code': return getCodeBlockText(doc, block);
+    case 'context': return block.context || '';
+    case 'heading': return [...block.headingPath, block.language || '', block.info || ''].join('\n');
+    case 'title': return doc.title;
+  }
+}
+
+export function buildCodeSnippetIndex(documents: Document[]): CodeSnippetIndex {
+  const entries = documents.flatMap(doc => (doc.codeBlocks || []).map(block => ({ doc, block })));
+  const postings = new Map<string, Posting[]>();
+  const fieldLengths: number[][] = [];
+  const totals = CODE_FIELDS.map(() => 0);
+
+  entries.forEach(({ doc, block }, entryId) => {
+    const frequencies = new Map<string, number[]>();
+    const lengths = CODE_FIELDS.map((field, fieldIndex) => {
+      const tokens = tokenize(getFieldText(doc, block, field));
+      for (const token of tokens) {
+        let counts = frequencies.get(token);
+        if (!counts) {
+          counts = CODE_FIELDS.map(() => 0);
+          frequencies.set(token, counts);
+        }
+        counts[fieldIndex]++;
+      }
+      totals[fieldIndex] += tokens.length;
+      return tokens.length;
+    });
+
+    fieldLengths.push(lengths);
+    for (const [term, counts] of frequencies) {
+      let list = postings.get(term);
+      if (!list) {
+        list = [];
+        postings.set(term, list);
+      }
+      list.push({ entryId, frequencies: counts });
+    }
+  });
+
+  const averageFieldLengths = totals.map(total => entries.length > 0 ? total / entries.length : 0);
+  return { entries, postings, fieldLengths, averageFieldLengths };
+}
+
+// BM25F over the block's fields, the same way documents are scored
+function scoreEntries(index: CodeSnippetIndex, terms: string[]): Map<number, { score: number; terms: string[] }> {
+  const scores = new Map<number, { score: number; terms: string[] }>();
+
+  for (const term of new Set(terms)) {
+    const list = index.postings.get(term);
+    if (!list) continue;
+
+    const idf = Math.log(1 + (index.entries.length - list.length + 0.5) / (list.length + 0.5));
+    for (const posting of list) {
+      const weightedFrequency = posting.frequencies.reduce((sum, frequency, fieldIndex) => {
+        if (frequency === 0) return sum;
+        const average = index.averageFieldLengths[fieldIndex] || 1;
+        const normalisation = 1 - BM25_B + BM25_B * (index.fieldLengths[posting.entryId][fieldIndex] / average);
+        return sum + CODE_FIELD_WEIGHTS[fieldIndex] * frequency / normalisation;
+      }, 0);
+
+      const entry = scores.get(posting.entryId) || { score: 0, terms: [] };
+      entry.score += idf * weightedFrequency / (BM25_K1 + weightedFrequency);
+      entry.terms.push(term);
+      scores.set(posting.entryId, entry);
+    }
+  }
+
+  return scores;
+}
+
+export function searchCodeSnippets(index: CodeSnippetIndex, query: string, options: CodeSearchOptions = {}): CodeSearchResult {
+  const terms = tokenize(query);
+  const languages = options.languages?.map(normalizeLanguage);
+  const maxLines = options.maxLines ?? DEFAULT_MAX_LINES;
+
+  const matches = Array.from(scoreEntries(index, terms))
+    .map(([entryId, match]) => ({ ...index.entries[entryId], ...match }))
+    .filter(({ doc }) =>
+      (!options.source || doc.source === options.source) &&
+      (!options.category || doc.category === options.category) &&
+      (!options.path || matchesPathPattern(doc.relativePath, options.path))
+    );
+
+  const languageCounts = new Map<string, number>();
+  matches.forEach(({ block }) => {
+    const language = block.language || 'none';
+    languageCounts.set(language, (languageCounts.get(language) || 0) + 1);
+  });
+
+  const ranked = matches
+    .filter(({ block }) => !languages?.length || (block.language !== undefined && languages.includes(block.language)))
+    .sort((a, b) => b.score - a.score);
+
+  return {
+    totalMatches: ranked.length,
+    languages: Array.from(languageCounts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count),
+    snippets: ranked.slice(0, options.limit || DEFAULT_SNIPPET_LIMIT).map(({ doc, block, score, terms: matchedTerms }) => {
+      const codeLines = getCodeBlockText(doc, block).split('\n');
+      return {
+        path: doc.relativePath,
+        source: doc.source,
+        title: doc.title,
+        language: block.language,
+        languageInferred: block.languageInferred,
+        info: block.info,
+        headingPath: block.headingPath,
+        anchor: block.anchor,
+        startLine: block.startLine,
+        endLine: block.endLine,
+        context: block.context,
+        code: codeLines.slice(0, maxLines).join('\n'),
+        lineCount: codeLines.length,
+        truncated: codeLines.length > maxLines || undefined,
+        score,
+        matchedTerms
+      };
+    })
+  };
+}
@@ -0,0 +1,340 @@
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { basename, dirname, join, resolve } from 'path';
+import { PACKAGE_ROOT } from './paths.js';
+import { configureDocumentFiles } from './docs.js';
+import {
+  BOOST_FIELDS,
+  ContextProfile,
+  DocumentTypeRule,
+  RelevanceWeights,
+  configureContextProfiles,
+  configureDocumentTypeRules,
+  configureRelevanceWeights
+} from './scoring.js';
+import { FreshnessConfig, configureFreshness, configureFreshnessFromEnv } from './freshness.js';
+import {
+  INFERENCE_SETTING_KEYS,
+  InferenceConfig,
+  configureInferenceRules,
+  configureInferenceRulesFromEnv,
+  getInferenceRuleNames
+} from './inference.js';
+import { DocSource, SOURCE_ID_PATTERN } from './sources.js';
+
+export const CONFIG_FILE_NAME = 'va-docs-mcp.config.json';
+
+// A repository to index alongside the others
+export interface SourceConfig {
+  id?: string;              // Defaults to the directory name
+  path: string;             // Relative to the config file
+  repository?: string;      // GitHub owner/name
+  repositoryPath?: string;  // Where path sits inside the repository
+}
+
+export interface VaDocsConfig {
+  sources?: SourceConfig[];  // Every repository to index; replaces roots
+  roots?: string[];     // Candidate docs repositories, relative to the config file; the first that exists is used
+  include?: string[];   // Globs of files to index (default: **/*.md)
+  exclude?: string[];   // Globs of files to skip
+  contexts?: Record<string, ContextProfile>;
+  documentTypes?: DocumentTypeRule[];
+  scoring?: Partial<RelevanceWeights>;
+  freshness?: FreshnessConfig;
+  inference?: InferenceConfig;
+}
+
+export interface LoadedConfig {
+  file?: string;        // The config file used, if any
+  sources: DocSource[]; // With absolute paths; empty when none are configured
+  roots: string[];      // Absolute paths
+}
+
+// A setting that is missing, mistyped or unknown. key is its dotted path
+// in the file, e.g. contexts.onboarding.boosts[1].boost
+export class ConfigError extends Error {
+  constructor(public file: string, public key: string, message: string) {
+    super(`${file}: "${key}" ${message}`);
+    this.name = 'ConfigError';
+  }
+}
+
+const TOP_LEVEL_KEYS = ['$schema', 'sources', 'roots', 'include', 'exclude', 'contexts', 'documentTypes', 'scoring', 'freshness', 'inference'];
+const FRESHNESS_KEYS = ['markers', 'versionRules', 'archiveDirectories', 'deprecatedStatuses', 'staleAfterDays'];
+
+// VA_DOCS_CONFIG if set, otherwise va-docs-mcp.config.json in the working
+// directory or next to the server
+export function findConfigFile(): string | undefined {
+  const explicit = process.env.VA_DOCS_CONFIG;
+  if (explicit) {
+    if (!existsSync(explicit)) {
+      throw new Error(`VA_DOCS_CONFIG points at ${explicit}, which does not exist`);
+    }
+    return resolve(explicit);
+  }
+  return [process.cwd(), PACKAGE_ROOT]
+    .map(directory => join(directory, CONFIG_FILE_NAME))
+    .find(path => existsSync(path));
+}
+
+class Validator {
+  constructor(private file: string) {}
+
+  fail(key: string, message: string): never {
+    throw new ConfigError(this.file, key, message);
+  }
+
+  object(value: unknown, key: string, allowed?: string[]): Record<string, unknown> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      this.fail(key, 'must be an object');
+    }
+    const record = value as Record<string, unknown>;
+    if (allowed) {
+      const unknown = Object.keys(record).find(name => !allowed.includes(name));
+      if (unknown !== undefined) {
+        this.fail(key ? `${key}.${unknown}` : unknown, `is not a known setting; expected one of ${allowed.filter(name => name !== '$schema').join(', ')}`);
+      }
+    }
+    return record;
+  }
+
+  stringList(value: unknown, key: string, options: { nonEmpty?: boolean } = {}): string[] {
+    if (!Array.isArray(value)) {
+      this.fail(key, 'must be a list of strings');
+    }
+    value.forEach((entry, i) => {
+      if (typeof entry !== 'string' || entry.trim() === '') {
+        this.fail(`${key}[${i}]`, 'must be a non-empty string');
+      }
+    });
+    if (options.nonEmpty && value.length === 0) {
+      this.fail(key, 'must list at least one entry');
+    }
+    return value as string[];
+  }
+
+  number(value: unknown, key: string, options: { min?: number } = {}): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(key, 'must be a number');
+    }
+    if (options.min !== undefined && value < options.min) {
+      this.fail(key, `must be ${options.min} or more`);
+    }
+    return value;
+  }
+}
+
+function validateSources(check: Validator, value: unknown): SourceConfig[] {
+  if (!Array.isArray(value)) {
+    check.fail('sources', 'must be a list of { id, path, repository, repositoryPath }');
+  }
+  value.forEach((raw, i) => {
+    const key = `sources[${i}]`;
+    const source = check.object(raw, key, ['id', 'path', 'repository', 'repositoryPath']);
+    if (typeof source.path !== 'string' || source.path.trim() === '') {
+      check.fail(`${key}.path`, 'must be a non-empty string');
+    }
+    if (source.id !== undefined && (typeof source.id !== 'string' || !SOURCE_ID_PATTERN.test(source.id))) {
+      check.fail(`${key}.id`, 'must be letters, digits, ".", "_" and "-"');
+    }
+    if (source.repository !== undefined && (typeof source.repository !== 'string' || !/^[^/\s]+\/[^/\s]+$/.test(source.repository))) {
+      check.fail(`${key}.repository`, 'must be a GitHub repository as owner/name');
+    }
+    if (source.repositoryPath !== undefined && typeof source.repositoryPath !== 'string') {
+      check.fail(`${key}.repositoryPath`, 'must be a string');
+    }
+  });
+  return value as SourceConfig[];
+}
+
+function validateContexts(check: Validator, value: unknown): Record<string, ContextProfile> {
+  const contexts = check.object(value, 'contexts');
+  for (const [name, raw] of Object.entries(contexts)) {
+    const key = `contexts.${name}`;
+    const profile = check.object(raw, key, ['match', 'boosts']);
+    check.stringList(profile.match, `${key}.match`);
+    if (!Array.isArray(profile.boosts)) {
+      check.fail(`${key}.boosts`, 'must be a list of { field, keywords, boost }');
+    }
+    profile.boosts.forEach((rawRule, i) => {
+      const ruleKey = `${key}.boosts[${i}]`;
+      const rule = check.object(rawRule, ruleKey, ['field', 'keywords', 'boost']);
+      if (!BOOST_FIELDS.includes(rule.field as any)) {
+        check.fail(`${ruleKey}.field`, `must be one of ${BOOST_FIELDS.join(', ')}`);
+      }
+      check.stringList(rule.keywords, `${ruleKey}.keywords`, { nonEmpty: true });
+      check.number(rule.boost, `${ruleKey}.boost`);
+    });
+  }
+  return contexts as unknown as Record<string, ContextProfile>;
+}
+
+function validateDocumentTypes(check: Validator, value: unknown): DocumentTypeRule[] {
+  if (!Array.isArray(value)) {
+    check.fail('documentTypes', 'must be a list of { type, path, content, allContent }');
+  }
+  value.forEach((raw, i) => {
+    const key = `documentTypes[${i}]`;
+    const rule = check.object(raw, key, ['type', 'path', 'content', 'allContent']);
+    if (typeof rule.type !== 'string' || rule.type.trim() === '') {
+      check.fail(`${key}.type`, 'must be a non-empty string');
+    }
+    const lists = (['path', 'content', 'allContent'] as const).filter(name => rule[name] !== undefined);
+    if (lists.length === 0) {
+      check.fail(key, 'needs at least one of path, content or allContent');
+    }
+    lists.forEach(name => check.stringList(rule[name], `${key}.${name}`, { nonEmpty: true }));
+  });
+  return value as DocumentTypeRule[];
+}
+
+function validateScoring(check: Validator, value: unknown): Partial<RelevanceWeights> {
+  const scoring = check.object(value, 'scoring', ['exactTitleBoost', 'documentTypeBoosts', 'recencyBoosts']);
+  if (scoring.exactTitleBoost !== undefined) {
+    check.number(scoring.exactTitleBoost, 'scoring.exactTitleBoost');
+  }
+  if (scoring.documentTypeBoosts !== undefined) {
+    const boosts = check.object(scoring.documentTypeBoosts, 'scoring.documentTypeBoosts');
+    Object.entries(boosts).forEach(([type, boost]) => check.number(boost, `scoring.documentTypeBoosts.${type}`));
+  }
+  if (scoring.recencyBoosts !== undefined) {
+    if (!Array.isArray(scoring.recencyBoosts)) {
+      check.fail('scoring.recencyBoosts', 'must be a list of { maxDays, boost }');
+    }
+    scoring.recencyBoosts.forEach((raw, i) => {
+      const entry = check.object(raw, `scoring.recencyBoosts[${i}]`, ['maxDays', 'boost']);
+      check.number(entry.maxDays, `scoring.recencyBoosts[${i}].maxDays`, { min: 0 });
+      check.number(entry.boost, `scoring.recencyBoosts[${i}].boost`);
+    });
+  }
+  return scoring as Partial<RelevanceWeights>;
+}
+
+function validateFreshness(check: Validator, value: unknown): FreshnessConfig {
+  const freshness = check.object(value, 'freshness', FRESHNESS_KEYS);
+  for (const name of ['markers', 'archiveDirectories', 'deprecatedStatuses']) {
+    if (freshness[name] !== undefined) check.stringList(freshness[name], `freshness.${name}`);
+  }
+  if (freshness.versionRules !== undefined) {
+    if (!Array.isArray(freshness.versionRules)) {
+      check.fail('freshness.versionRules', 'must be a list of { name, pattern, description }');
+    }
+    freshness.versionRules.forEach((raw, i) => {
+      const key = `freshness.versionRules[${i}]`;
+      const rule = check.object(raw, key, ['name', 'pattern', 'description']);
+      for (const name of ['name', 'pattern', 'description']) {
+        if (typeof rule[name] !== 'string' || (rule[name] as string).trim() === '') {
+          check.fail(`${key}.${name}`, 'must be a non-empty string');
+        }
+      }
+      try {
+        new RegExp(rule.pattern as string, 'i');
+      } catch (error) {
+        check.fail(`${key}.pattern`, `is not a valid regular expression: ${(error as Error).message}`);
+      }
+    });
+  }
+  if (freshness.staleAfterDays !== undefined) {
+    if (check.number(freshness.staleAfterDays, 'freshness.staleAfterDays') <= 0) {
+      check.fail('freshness.staleAfterDays', 'must be greater than 0');
+    }
+  }
+  return freshness as FreshnessConfig;
+}
+
+function validateInference(check: Validator, value: unknown): InferenceConfig {
+  const inference = check.object(value, 'inference', getInferenceRuleNames());
+  for (const [name, raw] of Object.entries(inference)) {
+    const key = `inference.${name}`;
+    const rule = check.object(raw, key, INFERENCE_SETTING_KEYS);
+    if (rule.enabled !== undefined && typeof rule.enabled !== 'boolean') {
+      check.fail(`${key}.enabled`, 'must be true or false');
+    }
+    if (rule.confidence !== undefined && check.number(rule.confidence, `${key}.confidence`, { min: 0 }) > 1) {
+      check.fail(`${key}.confidence`, 'must be between 0 and 1');
+    }
+    if (rule.limit !== undefined && !Number.isInteger(check.number(rule.limit, `${key}.limit`, { min: 0 }))) {
+      check.fail(`${key}.limit`, 'must be a whole number');
+    }
+  }
+  return inference as InferenceConfig;
+}
+
+// Check every setting's shape, naming the first bad key
+export function validateConfig(raw: unknown, file: string): VaDocsConfig {
+  const check = new Validator(file);
+  const config = check.object(raw, '', TOP_LEVEL_KEYS);
+
+  if (config.sources !== undefined) validateSources(check, config.sources);
+  if (config.roots !== undefined) check.stringList(config.roots, 'roots');
+  if (config.include !== undefined) check.stringList(config.include, 'include', { nonEmpty: true });
+  if (config.exclude !== undefined) check.stringList(config.exclude, 'exclude');
+  if (config.contexts !== undefined) validateContexts(check, config.contexts);
+  if (config.documentTypes !== undefined) validateDocumentTypes(check, config.documentTypes);
+  if (config.scoring !== undefined) validateScoring(check, config.scoring);
+  if (config.freshness !== undefined) validateFreshness(check, config.freshness);
+  if (config.inference !== undefined) validateInference(check, config.inference);
+
+  return config as VaDocsConfig;
+}
+
+export function readConfigFile(file: string): VaDocsConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`${file} is not valid JSON: ${(error as Error).message}`);
+  }
+  return validateConfig(raw, file);
+}
+
+function resolveRoot(root: string, baseDirectory: string): string {
+  if (root === '~' || root.startsWith('~/')) {
+    return join(homedir(), root.slice(1));
+  }
+  return resolve(baseDirectory, root);
+}
+
+// Each source's absolute path and id; paths must exist and ids be unique
+function resolveSourceConfigs(sources: SourceConfig[], file: string): DocSource[] {
+  const seen = new Set<string>();
+  return sources.map((source, i) => {
+    const path = resolveRoot(source.path, dirname(file));
+    if (!existsSync(path)) {
+      throw new ConfigError(file, `sources[${i}].path`, `points at ${path}, which does not exist`);
+    }
+    const id = source.id || basename(path);
+    if (!SOURCE_ID_PATTERN.test(id)) {
+      throw new ConfigError(file, `sources[${i}].id`, `is needed, as "${id}" can't be used as an id`);
+    }
+    if (seen.has(id)) {
+      throw new ConfigError(file, `sources[${i}].id`, `"${id}" is already used by another source`);
+    }
+    seen.add(id);
+    return { id, path, repository: source.repository, repositoryPath: source.repositoryPath };
+  });
+}
+
+// Read the config file if there is one and apply it, then the
+// VA_DOCS_INFERENCE_RULES and VA_DOCS_FRESHNESS overrides. Call once at
+// startup, before documents are loaded.
+export function loadConfiguration(): LoadedConfig {
+  const file = findConfigFile();
+  const config: VaDocsConfig = file ? readConfigFile(file) : {};
+
+  configureDocumentFiles({ include: config.include, exclude: config.exclude });
+  configureContextProfiles(config.contexts || {});
+  configureRelevanceWeights(config.scoring || {});
+  configureDocumentTypeRules(config.documentTypes || []);
+  configureFreshness(config.freshness || {});
+  configureInferenceRules(config.inference || {});
+
+  configureInferenceRulesFromEnv();
+  configureFreshnessFromEnv();
+
+  return {
+    file,
+    sources: file && config.sources ? resolveSourceConfigs(config.sources, file) : [],
+    roots: (config.roots || []).map(root => resolveRoot(root, file ? dirname(file) : process.cwd()))
+  };
+}
@@ -2,41 +2,101 @@ import { readFileSync, statSync } from 'fs';
 import { join, relative } from 'path';
 import matter from 'gray-matter';
 import { glob } from 'glob';
+import { minimatch } from 'minimatch';
+import { SearchIndex, explainTermScores, scoreTerms, tokenize } from './search-index.js';
+import { DocumentSection, flattenSections, parseHeadingTree } from './markdown.js';
+import { CodeBlock, extractCodeBlocks } from './code-blocks.js';
+import { parseQuery, collectScoringTerms, requiresTextMatch, matchesQuery } from './query.js';
+import type { GitFileInfo } from './git.js';
+import { RelationshipDeclaration, applyDeclaredRelationships, createTitleMap, extractRelationshipDeclarations } from './relationships.js';
+import { findAffectedByInference, inferRelationships, prepareInferenceRules } from './inference.js';
+import { assessFreshness } from './freshness.js';
+import { AppliedBoost, detectDocumentType, getContextBoosts, getContextualRelevance, getRelevanceBonus, getRelevanceBonuses } from './scoring.js';
+import { DocSource, findSourceForPath, getCategory, getSourcePrefix, requireSource, resolveRepositoryPath, toDocumentPath } from './sources.js';
+
+// Where an edge came from: a relationship section or frontmatter the author
+// wrote, a link in the text, or an inference rule
+export type RelationshipSource = 'explicit-section' | 'frontmatter' | 'inline-link' | 'inferred';
+
+export interface RelationshipEdge {
+  path: string;        // Relative path of the target document
+  source: RelationshipSource;
+  confidence: number;  // 0-1
+  rule?: string;       // Name of the inference rule, for inferred edges
+}
 
 export interface DocumentRelationships {
-  prerequisites?: string[];    // Docs that should be read first
-  followUps?: string[];       // Next recommended docs
-  seeAlso?: string[];         // Related/similar docs
-  dependents?: string[];      // Docs that reference this one
+  prerequisites?: RelationshipEdge[];    // Docs that should be read first
+  followUps?: RelationshipEdge[];       // Next recommended docs
+  seeAlso?: RelationshipEdge[];         // Related/similar docs
+  dependents?: RelationshipEdge[];      // Docs that reference this one
 }
 
+// A link says two documents are related, not how
+export const INLINE_LINK_CONFIDENCE = 0.9;
+
 export interface Document {
   path: string;
-  relativePath: string;
+  relativePath: string;    // Starts with the source id when several sources are indexed
+  source?: string;         // Id of the source the document came from
   title: string;
   content: string;
+  bodyStartLine?: number;  // File line where content starts, after any frontmatter
   frontmatter: Record<string, any>;
   category?: string;
   summary?: string;
   keySections?: string[];
+  sections?: DocumentSection[];  // Heading tree with anchors and line ranges
+  codeBlocks?: CodeBlock[];      // Fenced code with its language, section and lead-in paragraph
   estimatedReadTime?: number;
   documentType?: string;
-  lastModified?: Date;
+  lastModified?: Date;     // Last commit date in a git checkout, otherwise file mtime
+  git?: GitFileInfo;
   relationships?: DocumentRelationships;
+  declaredRelationships?: RelationshipDeclaration[];    // From relationship sections and frontmatter
+  unresolvedRelationships?: RelationshipDeclaration[];  // Declared, but matching no document
   internalLinks?: string[];     // All markdown links to other docs
+  linkedDocuments?: string[];   // Relative paths that internalLinks resolved to
   externalReferences?: string[]; // External links mentioned in content
 }
 
-export async function findDocuments(docsPath: string, pattern: string = '**/*.md'): Promise<string[]> {
-  const files = await glob(pattern, {
+// Never documentation, whatever the include globs say
+const ALWAYS_IGNORED = ['node_modules/**', '**/node_modules/**', '.git/**'];
+
+export interface DocumentFileSettings {
+  include: string[];  // Globs relative to the docs root
+  exclude: string[];
+}
+
+const DEFAULT_DOCUMENT_FILES: DocumentFileSettings = { include: ['**/*.md'], exclude: [] };
+let documentFiles: DocumentFileSettings = DEFAULT_DOCUMENT_FILES;
+
+// Settings left out keep their defaults
+export function configureDocumentFiles(settings: Partial<DocumentFileSettings>): void {
+  documentFiles = {
+    include: settings.include || DEFAULT_DOCUMENT_FILES.include,
+    exclude: settings.exclude || DEFAULT_DOCUMENT_FILES.exclude
+  };
+}
+
+// Whether a path relative to the docs root is indexed, for files found
+// some other way than findDocuments (e.g. by the watcher)
+export function isDocumentPath(relativePath: string): boolean {
+  const matches = (pattern: string) => minimatch(relativePath, pattern);
+  return documentFiles.include.some(matches) && ![...ALWAYS_IGNORED, ...documentFiles.exclude].some(matches);
+}
+
+export async function findDocuments(docsPath: string): Promise<string[]> {
+  const files = await glob(documentFiles.include, {
     cwd: docsPath,
-    ignore: ['node_modules/**', '**/node_modules/**', '.git/**'],
+    ignore: [...ALWAYS_IGNORED, ...documentFiles.exclude],
+    nodir: true,
     absolute: true
   });
   return files;
 }
 
-export function parseDocument(filePath: string, basePath: string): Document | null {
+export function parseDocument(filePath: string, source: DocSource): Document | null {
   try {
     // Check if it's a file (not a directory)
     const stats = statSync(filePath);
@@ -59,30 +119,39 @@ export function parseDocument(filePath: string, basePath: string): Document | nu
       console.error(`YAML parse error in ${filePath}:`, yamlError);
     }
     
-    const relativePath = relative(basePath, filePath);
+    // gray-matter strips the frontmatter block from the front of the file
+    const bodyStartLine = content.endsWith(markdownContent)
+      ? content.slice(0, content.length - markdownContent.length).split('\n').length
+      : 1;
+    
+    const relativePath = toDocumentPath(source, relative(source.path, filePath));
     const title = data.title || extractTitleFromContent(markdownContent) || relativePath;
     
     // Try to determine category from path
-    const pathParts = relativePath.split('/');
-    const category = pathParts[0] || 'general';
+    const category = getCategory(relativePath);
     
     // Extract metadata and create summary
-    const metadata = extractDocumentMetadata(markdownContent, filePath, data);
+    const metadata = extractDocumentMetadata(markdownContent, filePath, data, bodyStartLine);
     
     // Extract links and relationships
     const links = extractMarkdownLinks(markdownContent, relativePath);
-    const explicitRelationships = extractExplicitRelationships(markdownContent);
+    const declaredRelationships = extractRelationshipDeclarations(
+      markdownContent, data, relativePath, metadata.sections, bodyStartLine
+    );
     
     return {
       path: filePath,
       relativePath,
+      source: source.id,
       title,
       content: markdownContent,
+      bodyStartLine,
       frontmatter: data,
       category,
       internalLinks: links.internal,
       externalReferences: links.external,
-      relationships: explicitRelationships,
+      relationships: {},
+      declaredRelationships,
       ...metadata
     };
   } catch (error) {
@@ -91,12 +160,13 @@ export function parseDocument(filePath: string, basePath: string): Document | nu
   }
 }
 
-function extractTitleFromContent(content: string): string | null {
+export function extractTitleFromContent(content: string): string | null {
   const match = content.match(/^#\s+(.+)$/m);
   return match ? match[1].trim() : null;
 }
 
 export interface SearchOptions {
+  source?: string;
   category?: string;
   limit?: number;
   context?: string;
@@ -104,201 +174,196 @@ export interface SearchOptions {
   excludeOutdated?: boolean;
 }
 
+export interface ScoredDocument {
+  doc: Document;
+  score: number;
+}
+
 export function searchDocuments(
-  documents: Document[], 
+  index: SearchIndex, 
   query: string, 
   options: SearchOptions = {}
 ): Document[] {
-  const lowerQuery = query.toLowerCase();
+  return rankDocuments(index, query, options).map(result => result.doc);
+}
+
+// searchDocuments with each result's relevance score
+export function rankDocuments(
+  index: SearchIndex, 
+  query: string, 
+  options: SearchOptions = {}
+): ScoredDocument[] {
+  const lowerQuery = query.toLowerCase().trim();
   
-  let results = documents.filter(doc => {
-    // Filter by category if specified
-    if (options.category && doc.category !== options.category) {
-      return false;
-    }
-    
-    // Filter by document types if specified
-    if (options.documentTypes && options.documentTypes.length > 0) {
-      if (!doc.documentType || !options.documentTypes.includes(doc.documentType)) {
-        return false;
-      }
-    }
+  // Throws QuerySyntaxError so callers can report bad syntax
+  const parsedQuery = parseQuery(query);
+  if (!parsedQuery) {
+    return [];
+  }
+  
+  const textScores = scoreTerms(index, collectScoringTerms(parsedQuery));
+  
+  // Pure filter queries ("type:api-docs") have no posting lists to start from
+  const candidates = requiresTextMatch(parsedQuery)
+    ? Array.from(textScores.keys())
+    : index.documents.map((_, docId) => docId);
+  
+  const scored: ScoredDocument[] = [];
+  for (const docId of candidates) {
+    const doc = index.documents[docId];
     
-    // Exclude outdated documents if requested
-    if (options.excludeOutdated) {
-      const freshnessCheck = assessDocumentFreshness(doc);
-      if (freshnessCheck.isOutdated) {
-        return false;
-      }
+    if (!matchesQuery(parsedQuery, index, docId) || !matchesSearchOptions(doc, options)) {
+      continue;
     }
     
-    // Search in title, content, and frontmatter
-    const searchText = [
-      doc.title,
-      doc.content,
-      JSON.stringify(doc.frontmatter)
-    ].join(' ').toLowerCase();
-    
-    return searchText.includes(lowerQuery);
-  });
+    scored.push({ doc, score: calculateRelevanceScore(doc, lowerQuery, textScores.get(docId) || 0, options.context) });
+  }
   
-  // Sort by relevance
-  results.sort((a, b) => {
-    // Calculate relevance scores
-    const aScore = calculateRelevanceScore(a, lowerQuery, options.context);
-    const bScore = calculateRelevanceScore(b, lowerQuery, options.context);
-    
-    return bScore - aScore; // Higher score first
-  });
+  // Sort by relevance, higher score first
+  scored.sort((a, b) => b.score - a.score);
   
   // Apply limit if specified
-  if (options.limit) {
-    results = results.slice(0, options.limit);
-  }
-  
-  return results;
+  return options.limit ? scored.slice(0, options.limit) : scored;
 }
 
-function calculateRelevanceScore(doc: Document, query: string, context?: string): number {
-  let score = 0;
-  const lowerTitle = doc.title.toLowerCase();
-  const lowerContent = doc.content.toLowerCase();
-  
-  // Title match is highest priority
-  if (lowerTitle.includes(query)) {
-    score += 100;
-    // Exact title match gets bonus
-    if (lowerTitle === query) {
-      score += 50;
-    }
-  }
-  
-  // Summary match
-  if (doc.summary?.toLowerCase().includes(query)) {
-    score += 50;
+// The source, category, document type and freshness filters of a search
+export function matchesSearchOptions(doc: Document, options: SearchOptions): boolean {
+  // Filter by source if specified
+  if (options.source && doc.source !== options.source) {
+    return false;
   }
   
-  // Content matches
-  const contentMatches = (lowerContent.match(new RegExp(query, 'g')) || []).length;
-  score += contentMatches * 5;
-  
-  // Context-based scoring
-  if (context) {
-    score += getContextualRelevance(doc, context);
+  // Filter by category if specified
+  if (options.category && doc.category !== options.category) {
+    return false;
   }
   
-  // Document type relevance
-  if (doc.documentType) {
-    // Prefer guides and setup documents for general queries
-    if (['guide', 'setup-guide'].includes(doc.documentType)) {
-      score += 10;
+  // Filter by document types if specified
+  if (options.documentTypes && options.documentTypes.length > 0) {
+    if (!doc.documentType || !options.documentTypes.includes(doc.documentType)) {
+      return false;
     }
   }
   
-  // Freshness bonus (newer docs get slight preference)
-  if (doc.lastModified) {
-    const daysSinceModified = (Date.now() - new Date(doc.lastModified).getTime()) / (1000 * 60 * 60 * 24);
-    if (daysSinceModified < 30) score += 20;
-    else if (daysSinceModified < 90) score += 10;
-    else if (daysSinceModified < 180) score += 5;
+  // Exclude outdated documents if requested
+  if (options.excludeOutdated) {
+    if (assessFreshness(doc).isOutdated) {
+      return false;
+    }
   }
   
-  return score;
+  return true;
 }
 
-function getContextualRelevance(doc: Document, context: string): number {
-  let score = 0;
-  const contextLower = context.toLowerCase();
-  const titleLower = doc.title.toLowerCase();
-  const contentLower = doc.content.toLowerCase();
-  
-  // Context-specific scoring
-  if (contextLower.includes('new developer') || contextLower.includes('getting started')) {
-    if (doc.documentType === 'setup-guide') score += 30;
-    if (doc.documentType === 'guide') score += 20;
-    if (titleLower.includes('setup') || titleLower.includes('getting started')) score += 25;
-    if (titleLower.includes('introduction') || titleLower.includes('overview')) score += 15;
-  }
-  
-  if (contextLower.includes('api') || contextLower.includes('integration')) {
-    if (doc.documentType === 'api-docs') score += 30;
-    if (titleLower.includes('api') || titleLower.includes('endpoint')) score += 25;
-    if (titleLower.includes('integration') || titleLower.includes('contract')) score += 20;
-  }
-  
-  if (contextLower.includes('troubleshoot') || contextLower.includes('debug') || contextLower.includes('error')) {
-    if (doc.documentType === 'testing') score += 20;
-    if (titleLower.includes('troubleshoot') || titleLower.includes('error')) score += 25;
-    if (titleLower.includes('debug') || titleLower.includes('fix')) score += 20;
-    if (contentLower.includes('common issues') || contentLower.includes('known issues')) score += 15;
-  }
+// BM25 scores are typically in the 0-15 range; scale them so the context,
+// type and freshness bonuses below stay tie-breakers rather than dominating
+const TEXT_SCORE_SCALE = 10;
+
+function calculateRelevanceScore(doc: Document, query: string, textScore: number, context?: string): number {
+  let score = textScore * TEXT_SCORE_SCALE + getRelevanceBonus(doc, query);
   
-  if (contextLower.includes('deploy') || contextLower.includes('release')) {
-    if (titleLower.includes('deploy') || titleLower.includes('release')) score += 25;
-    if (titleLower.includes('ci/cd') || titleLower.includes('pipeline')) score += 20;
+  // Context-based scoring
+  if (context) {
+    score += getContextualRelevance(doc, context);
   }
   
   return score;
 }
 
-function assessDocumentFreshness(doc: Document): { isOutdated: boolean; reasons?: string[] } {
-  const reasons: string[] = [];
-  
-  // Check age
-  if (doc.lastModified) {
-    const daysSinceModified = (Date.now() - new Date(doc.lastModified).getTime()) / (1000 * 60 * 60 * 24);
-    if (daysSinceModified > 365) {
-      reasons.push('Document is over 1 year old');
-    }
-  }
+export interface ScoreExplanation {
+  path: string;
+  query: string;
+  matched: boolean;      // Whether the document is one of the query's results
+  reason?: string;       // Why it isn't
+  rank?: number;         // 1-based position among the results
+  resultCount: number;
+  score: number;         // What results are ranked by; the sum of the components
+  components: {
+    title: number;       // Query terms in the title, headings, summary and body
+    headings: number;
+    summary: number;
+    content: number;
+    exactTitle: number;
+    documentType: number;
+    freshness: number;   // Recency bonus
+    context: number;
+  };
+  terms: { term: string; score: number }[];  // The text components by query term
+  contextBoosts: AppliedBoost[];
+}
+
+// Break a document's relevance score for a query into the parts
+// calculateRelevanceScore adds up, and say where it ranks or why it
+// isn't a result at all
+export function explainRelevanceScore(
+  index: SearchIndex,
+  doc: Document,
+  query: string,
+  options: SearchOptions = {}
+): ScoreExplanation {
+  const docId = index.documents.indexOf(doc);
+  if (docId === -1) {
+    throw new Error(`${doc.relativePath} is not in the search index`);
+  }
+  
+  const parsedQuery = parseQuery(query);
+  const termScores = explainTermScores(index, docId, collectScoringTerms(parsedQuery));
+  const fieldScore = (field: keyof typeof termScores[number]['fields']) =>
+    termScores.reduce((sum, term) => sum + term.fields[field], 0) * TEXT_SCORE_SCALE;
+  const bonuses = getRelevanceBonuses(doc, query.toLowerCase().trim());
+  const contextBoosts = options.context ? getContextBoosts(doc, options.context) : [];
+  
+  const components = {
+    title: fieldScore('title'),
+    headings: fieldScore('headings'),
+    summary: fieldScore('summary'),
+    content: fieldScore('body'),
+    exactTitle: bonuses.exactTitle,
+    documentType: bonuses.documentType,
+    freshness: bonuses.recency,
+    context: contextBoosts.reduce((sum, rule) => sum + rule.boost, 0)
+  };
   
-  // Check for outdated markers in content
-  const contentLower = doc.content.toLowerCase();
-  const outdatedMarkers = [
-    'deprecated',
-    'outdated',
-    'no longer maintained',
-    'archive',
-    'legacy',
-    'obsolete',
-    'old version'
-  ];
-  
-  for (const marker of outdatedMarkers) {
-    if (contentLower.includes(marker)) {
-      reasons.push(`Contains "${marker}" marker`);
-    }
+  let reason: string | undefined;
+  if (!parsedQuery) {
+    reason = 'The query has no terms or filters';
+  } else if (requiresTextMatch(parsedQuery) && !termScores.some(term => term.score > 0)) {
+    reason = 'None of the query terms appear in the document';
+  } else if (!matchesQuery(parsedQuery, index, docId)) {
+    reason = "The document doesn't satisfy the query's phrases, operators or field filters";
+  } else if (!matchesSearchOptions(doc, options)) {
+    reason = 'The document is excluded by the source, category, type or freshness filter';
   }
   
-  // Check for old version references
-  const oldVersionPatterns = [
-    /node\s*(version)?\s*1[0-2]/i,  // Node 12 or older
-    /ruby\s*(version)?\s*2\.[0-5]/i,  // Ruby 2.5 or older
-    /react\s*(version)?\s*1[0-5]/i,   // React 15 or older
-  ];
-  
-  for (const pattern of oldVersionPatterns) {
-    if (pattern.test(contentLower)) {
-      reasons.push('References outdated software versions');
-    }
-  }
+  const results = searchDocuments(index, query, { ...options, limit: undefined });
+  const position = results.indexOf(doc);
   
   return {
-    isOutdated: reasons.length > 0,
-    reasons: reasons.length > 0 ? reasons : undefined
+    path: doc.relativePath,
+    query,
+    matched: position !== -1,
+    reason,
+    rank: position === -1 ? undefined : position + 1,
+    resultCount: results.length,
+    score: Object.values(components).reduce((sum, value) => sum + value, 0),
+    components,
+    terms: termScores.map(term => ({ term: term.term, score: term.score * TEXT_SCORE_SCALE })),
+    contextBoosts
   };
 }
 
-function extractDocumentMetadata(content: string, filePath: string, frontmatter: Record<string, any>) {
-  // Extract key sections from headers
-  const keySections = extractSections(content);
+function extractDocumentMetadata(content: string, filePath: string, frontmatter: Record<string, any>, bodyStartLine: number) {
+  // Build the heading tree; key sections are the top three levels
+  const sections = parseHeadingTree(content, bodyStartLine);
+  const keySections = extractSections(sections);
+  const codeBlocks = extractCodeBlocks(content, sections, bodyStartLine);
   
   // Estimate read time (average 200 words per minute)
   const wordCount = content.split(/\s+/).length;
   const estimatedReadTime = Math.max(1, Math.ceil(wordCount / 200));
   
   // Determine document type
-  const documentType = determineDocumentType(content, filePath, frontmatter);
+  const documentType = detectDocumentType(content, filePath, frontmatter);
   
   // Create summary
   const summary = createSummary(content, keySections, documentType);
@@ -315,39 +380,42 @@ function extractDocumentMetadata(content: string, filePath: string, frontmatter:
   return {
     summary,
     keySections,
+    sections,
+    codeBlocks,
     estimatedReadTime,
     documentType,
     lastModified
   };
 }
 
-function extractSections(content: string): string[] {
-  const headers = content.match(/^#{1,3}\s+(.+)$/gm);
-  return headers ? headers.map(h => h.replace(/^#+\s+/, '').trim()) : [];
+function extractSections(sections: DocumentSection[]): string[] {
+  return flattenSections(sections)
+    .filter(section => section.level <= 3)
+    .map(section => section.heading);
 }
 
-function determineDocumentType(content: string, filePath: string, frontmatter: Record<string, any>): string {
-  const fileName = filePath.toLowerCase();
-  const contentLower = content.toLowerCase();
-  
-  // Check frontmatter first
-  if (frontmatter.type) return frontmatter.type;
-  
-  // Determine by filename patterns
-  if (fileName.includes('readme')) return 'guide';
-  if (fileName.includes('rfc')) return 'rfc';
-  if (fileName.includes('api')) return 'api-docs';
-  if (fileName.includes('setup') || fileName.includes('install')) return 'setup-guide';
-  if (fileName.includes('test')) return 'testing';
-  
-  // Determine by content patterns
-  if (contentLower.includes('## api') || contentLower.includes('endpoint')) return 'api-docs';
-  if (contentLower.includes('## installation') || contentLower.includes('## setup')) return 'setup-guide';
-  if (contentLower.includes('## background') && contentLower.includes('## proposal')) return 'rfc';
-  if (contentLower.includes('## getting started') || contentLower.includes('## prerequisites')) return 'guide';
-  if (contentLower.includes('## test') || contentLower.includes('testing')) return 'testing';
-  
-  return 'documentation';
+// The section whose own text (not its subsections) best matches the query
+// terms, weighting heading hits above body hits
+export function findBestSection(doc: Document, terms: string[]): DocumentSection | undefined {
+  if (!doc.sections || terms.length === 0) return undefined;
+  const wanted = new Set(terms);
+  
+  let best: DocumentSection | undefined;
+  let bestScore = 0;
+  for (const section of flattenSections(doc.sections)) {
+    const bodyEnd = section.children.length > 0 ? section.children[0].startOffset : section.endOffset;
+    const headingHits = tokenize(section.heading).filter(term => wanted.has(term)).length;
+    const bodyTokens = tokenize(doc.content.slice(section.startOffset, bodyEnd));
+    const bodyHits = bodyTokens.filter(term => wanted.has(term)).length;
+    const distinctHits = new Set(bodyTokens.filter(term => wanted.has(term))).size;
+    
+    const score = headingHits * 3 + bodyHits + distinctHits * 2;
+    if (score > bestScore) {
+      best = section;
+      bestScore = score;
+    }
+  }
+  return best;
 }
 
 function createSummary(content: string, keySections: string[], documentType: string): string {
@@ -405,29 +473,55 @@ function categorizeLink(url: string, documentPath: string, internal: string[], e
   // Skip anchors and empty links
   if (!url || url.startsWith('#')) return;
   
-  // Check if it's an internal link to another doc
-  if (url.endsWith('.md') || url.includes('va.gov-team')) {
-    // Resolve relative paths
-    let resolvedPath = url;
-    
-    // Handle relative paths like ../other-doc.md
-    if (url.startsWith('./') || url.startsWith('../')) {
-      const docDir = documentPath.split('/').slice(0, -1).join('/');
-      resolvedPath = resolvePath(docDir, url);
-    }
-    
-    // Remove .md extension and normalize
-    resolvedPath = resolvedPath.replace(/\.md$/, '').replace(/^\/+/, '');
-    
-    // Only add if it looks like a valid internal path
-    if (resolvedPath && !resolvedPath.startsWith('http')) {
-      internal.push(resolvedPath);
-    }
+  const target = parseLinkUrl(url, documentPath);
+  if (target) {
+    internal.push(target.path);
   } else if (url.startsWith('http')) {
     external.push(url);
   }
 }
 
+// Links into an indexed repository on GitHub count as internal
+const GITHUB_FILE_URL = /^https?:\/\/github\.com\/([^/]+\/[^/]+)\/(?:blob|tree)\/[^/]+\/(.+)$/i;
+
+// Resolve a link to the docs path it points at, without the .md extension,
+// plus any #anchor. Relative links resolve from the linking document's
+// directory, as GitHub does, and absolute ones from its source's root;
+// null for anything that isn't a markdown doc.
+export function parseLinkUrl(url: string, documentPath: string): { path: string; anchor?: string } | null {
+  // Drop <angle brackets> and a trailing "title"
+  const cleaned = url.trim().replace(/^<(.*)>$/, '$1').split(/\s+/)[0];
+  const [withoutAnchor, anchor] = cleaned.split('#', 2);
+  const pathPart = withoutAnchor.split('?')[0];
+  
+  let resolvedPath: string;
+  const githubMatch = pathPart.match(GITHUB_FILE_URL);
+  const repositoryPath = githubMatch ? resolveRepositoryPath(githubMatch[1], githubMatch[2]) : null;
+  if (repositoryPath !== null) {
+    resolvedPath = repositoryPath;
+  } else if (/^[a-z][a-z0-9+.-]*:/i.test(pathPart)) {
+    return null;
+  } else if (pathPart.startsWith('/')) {
+    const source = findSourceForPath(documentPath);
+    resolvedPath = (source ? getSourcePrefix(source) : '') + pathPart.replace(/^\/+/, '');
+  } else {
+    const docDir = documentPath.split('/').slice(0, -1).join('/');
+    resolvedPath = resolvePath(docDir, pathPart);
+  }
+  
+  if (!resolvedPath.toLowerCase().endsWith('.md')) return null;
+  
+  try {
+    resolvedPath = decodeURIComponent(resolvedPath);
+  } catch (error) {
+    // Leave malformed escapes as written
+  }
+  
+  // Remove .md extension and normalize
+  resolvedPath = resolvedPath.replace(/\.md$/i, '').replace(/^\/+/, '');
+  return resolvedPath ? { path: resolvedPath, anchor: anchor || undefined } : null;
+}
+
 function resolvePath(basePath: string, relativePath: string): string {
   // Simple path resolution for relative links
   const baseSegments = basePath.split('/').filter(Boolean);
@@ -444,36 +538,24 @@ function resolvePath(basePath: string, relativePath: string): string {
   return baseSegments.join('/');
 }
 
-function extractExplicitRelationships(content: string): Partial<DocumentRelationships> {
-  const relationships: Partial<DocumentRelationships> = {};
-  
-  // Look for explicit relationship sections
-  const prereqMatches = content.match(/(?:prerequisite|prereq)s?:?\s*\n((?:- .*\n?)*)/gi);
-  const seeAlsoMatches = content.match(/(?:see also|related):?\s*\n((?:- .*\n?)*)/gi);
-  const nextMatches = content.match(/(?:next|follow.?up):?\s*\n((?:- .*\n?)*)/gi);
-  
-  if (prereqMatches) {
-    relationships.prerequisites = extractListItems(prereqMatches[0]);
-  }
-  
-  if (seeAlsoMatches) {
-    relationships.seeAlso = extractListItems(seeAlsoMatches[0]);
-  }
-  
-  if (nextMatches) {
-    relationships.followUps = extractListItems(nextMatches[0]);
-  }
-  
-  return relationships;
+export interface DocumentChanges {
+  added: string[];     // Relative paths of new documents
+  modified: string[];  // Relative paths of re-parsed documents
+  removed: string[];   // Relative paths of documents that no longer exist
 }
 
-function extractListItems(text: string): string[] {
-  const items = text.match(/- (.+)/g);
-  return items ? items.map(item => item.replace(/^- /, '').trim()) : [];
+// A document by relative path, or given a source id, by path within that source too
+export function findDocument(documents: Document[], path: string, sourceId?: string): Document | undefined {
+  if (!sourceId) {
+    return documents.find(doc => doc.relativePath === path);
+  }
+  const source = requireSource(sourceId);
+  return documents.find(doc =>
+    doc.source === source.id && (doc.relativePath === path || doc.relativePath === toDocumentPath(source, path))
+  );
 }
 
-export function buildRelationshipIndex(documents: Document[]): void {
-  // Create a map for fast document lookup by path
+export function createDocumentMap(documents: Document[]): Map<string, Document> {
   const docMap = new Map<string, Document>();
   documents.forEach(doc => {
     docMap.set(doc.relativePath, doc);
@@ -481,103 +563,173 @@ export function buildRelationshipIndex(documents: Document[]): void {
     const pathWithoutExt = doc.relativePath.replace(/\.md$/, '');
     docMap.set(pathWithoutExt, doc);
   });
+  return docMap;
+}
+
+export function buildRelationshipIndex(documents: Document[]): void {
+  // Create a map for fast document lookup by path
+  const docMap = createDocumentMap(documents);
+  
+  // Resolve each document's links once, then derive the reverse edges.
+  // Relationships start over, so the index can be rebuilt in place.
+  documents.forEach(doc => {
+    doc.linkedDocuments = resolveLinkTargets(doc, docMap);
+    doc.relationships = {};
+  });
+  rebuildDependents(documents);
+  
+  // Declared relationships first; inference only fills in what's missing
+  const titleMap = createTitleMap(documents);
+  documents.forEach(doc => applyDeclaredRelationships(doc, docMap, titleMap));
+  prepareInferenceRules(documents);
+  const byCategory = groupByCategory(documents);
+  documents.forEach(doc => inferRelationships(doc, byCategory.get(doc.category || 'general') || []));
+}
+
+// Patch the relationship index after some documents were re-parsed. Only
+// links that could resolve differently are re-resolved, and inferred
+// relationships are recomputed only in the categories that changed, for
+// documents with edges to a changed path and for those the rules say a
+// change could reach (see-also crosses categories).
+// `documents` must already reflect the changes.
+export function updateRelationshipIndex(documents: Document[], changes: DocumentChanges): void {
+  const docMap = createDocumentMap(documents);
+  const reparsed = new Set([...changes.added, ...changes.modified]);
+  
+  // Adding or removing a file can change what other documents' links resolve to
+  const appearedOrRemoved = [...changes.added, ...changes.removed].map(path => path.replace(/\.md$/, ''));
+  
+  documents.forEach(doc => {
+    const mightResolveDifferently = appearedOrRemoved.length > 0 && doc.internalLinks?.some(link =>
+      appearedOrRemoved.some(path => path === link || path.endsWith(link) || path.includes(link))
+    );
+    if (reparsed.has(doc.relativePath) || mightResolveDifferently) {
+      doc.linkedDocuments = resolveLinkTargets(doc, docMap);
+    }
+  });
+  rebuildDependents(documents);
+  
+  const changedPaths = new Set([...changes.added, ...changes.modified, ...changes.removed]);
+  const affectedCategories = new Set(Array.from(changedPaths, getCategory));
+  const pointsAtChange = (doc: Document) => (Object.entries(doc.relationships || {}) as [string, RelationshipEdge[]][]).some(([type, edges]) =>
+    type !== 'dependents' && edges?.some(edge => changedPaths.has(edge.path))
+  );
+  const titleMap = createTitleMap(documents);
+  const byCategory = groupByCategory(documents);
+  prepareInferenceRules(documents);
+  const nearChange = findAffectedByInference(documents.filter(doc => reparsed.has(doc.relativePath)));
+  documents.forEach(doc => {
+    // Declarations can point anywhere, so their targets may have appeared or gone
+    if (!affectedCategories.has(doc.category || 'general') && !doc.declaredRelationships?.length &&
+      !pointsAtChange(doc) && !nearChange.has(doc.relativePath)) return;
+    // Start over from the document's own declarations before re-inferring
+    doc.relationships = { dependents: doc.relationships?.dependents };
+    applyDeclaredRelationships(doc, docMap, titleMap);
+    inferRelationships(doc, byCategory.get(doc.category || 'general') || []);
+  });
+}
+
+function groupByCategory(documents: Document[]): Map<string, Document[]> {
+  const groups = new Map<string, Document[]>();
+  documents.forEach(doc => {
+    const category = doc.category || 'general';
+    if (!groups.has(category)) groups.set(category, []);
+    groups.get(category)!.push(doc);
+  });
+  return groups;
+}
+
+function resolveLinkTargets(doc: Document, docMap: Map<string, Document>): string[] {
+  const targets = new Set<string>();
+  doc.internalLinks?.forEach(linkedPath => {
+    const linkedDoc = findDocumentByPath(linkedPath, docMap);
+    if (linkedDoc) {
+      targets.add(linkedDoc.relativePath);
+    }
+  });
+  return Array.from(targets);
+}
+
+// Dependents are the reverse of the resolved link edges
+function rebuildDependents(documents: Document[]): void {
+  const dependents = new Map<string, RelationshipEdge[]>();
+  documents.forEach(doc => {
+    doc.linkedDocuments?.forEach(target => {
+      if (!dependents.has(target)) dependents.set(target, []);
+      dependents.get(target)!.push({ path: doc.relativePath, source: 'inline-link', confidence: INLINE_LINK_CONFIDENCE });
+    });
+  });
   
-  // Build bidirectional relationships
   documents.forEach(doc => {
     if (!doc.relationships) {
       doc.relationships = {};
     }
-    
-    // For each internal link, add this document as a dependent
-    doc.internalLinks?.forEach(linkedPath => {
-      const linkedDoc = findDocumentByPath(linkedPath, docMap);
-      if (linkedDoc) {
-        if (!linkedDoc.relationships) {
-          linkedDoc.relationships = {};
-        }
-        if (!linkedDoc.relationships.dependents) {
-          linkedDoc.relationships.dependents = [];
-        }
-        
-        // Add this document as a dependent if not already present
-        if (!linkedDoc.relationships.dependents.includes(doc.relativePath)) {
-          linkedDoc.relationships.dependents.push(doc.relativePath);
-        }
-      }
-    });
-    
-    // Infer relationships from link patterns and content
-    inferImplicitRelationships(doc, docMap);
+    const docDependents = dependents.get(doc.relativePath);
+    if (docDependents) {
+      doc.relationships.dependents = docDependents;
+    } else {
+      delete doc.relationships.dependents;
+    }
   });
 }
 
 function findDocumentByPath(path: string, docMap: Map<string, Document>): Document | undefined {
+  return matchDocumentPath(path, docMap)?.doc;
+}
+
+// fuzzy is set when the link only matched part of a path, so it may have
+// picked one of several documents
+export function matchDocumentPath(
+  path: string,
+  docMap: Map<string, Document>
+): { doc: Document; fuzzy: boolean } | undefined {
   // Try exact match first
   let doc = docMap.get(path);
-  if (doc) return doc;
+  if (doc) return { doc, fuzzy: false };
   
   // Try with .md extension
   doc = docMap.get(path + '.md');
-  if (doc) return doc;
+  if (doc) return { doc, fuzzy: false };
   
   // Try without .md extension
   doc = docMap.get(path.replace(/\.md$/, ''));
-  if (doc) return doc;
+  if (doc) return { doc, fuzzy: false };
   
   // Try fuzzy matching for partial paths
   for (const [docPath, document] of docMap.entries()) {
     if (docPath.endsWith(path) || docPath.includes(path)) {
-      return document;
+      return { doc: document, fuzzy: true };
     }
   }
   
   return undefined;
 }
 
-function inferImplicitRelationships(doc: Document, docMap: Map<string, Document>): void {
-  const content = doc.content.toLowerCase();
-  const title = doc.title.toLowerCase();
-  
-  // Infer prerequisites from content patterns
-  if (content.includes('before') || content.includes('first') || content.includes('prerequisite')) {
-    // Look for documents that this one might depend on
-    const setupKeywords = ['setup', 'install', 'configure', 'getting started'];
-    if (!setupKeywords.some(keyword => title.includes(keyword))) {
-      // This doc might have prerequisites - look for setup docs in same category
-      const setupDocs = Array.from(docMap.values()).filter(otherDoc => 
-        otherDoc.category === doc.category &&
-        otherDoc.documentType === 'setup-guide' &&
-        otherDoc.relativePath !== doc.relativePath
-      );
-      
-      if (setupDocs.length > 0 && !doc.relationships?.prerequisites?.length) {
-        if (!doc.relationships) doc.relationships = {};
-        doc.relationships.prerequisites = setupDocs.slice(0, 2).map(d => d.relativePath);
-      }
-    }
-  }
-  
-  // Infer follow-ups for setup/getting-started docs
-  if (doc.documentType === 'setup-guide' || title.includes('getting started')) {
-    const followUpDocs = Array.from(docMap.values()).filter(otherDoc =>
-      otherDoc.category === doc.category &&
-      otherDoc.documentType !== 'setup-guide' &&
-      otherDoc.relativePath !== doc.relativePath &&
-      (otherDoc.documentType === 'guide' || otherDoc.documentType === 'testing')
-    );
-    
-    if (followUpDocs.length > 0 && !doc.relationships?.followUps?.length) {
-      if (!doc.relationships) doc.relationships = {};
-      doc.relationships.followUps = followUpDocs.slice(0, 3).map(d => d.relativePath);
-    }
+// Edges at or above minConfidence, most confident first; ties keep the
+// order they were declared in
+export function filterEdges(edges: RelationshipEdge[] | undefined, minConfidence: number = 0): RelationshipEdge[] {
+  return (edges || [])
+    .filter(edge => edge.confidence >= minConfidence)
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+export function filterRelationships(
+  relationships: DocumentRelationships | undefined,
+  minConfidence: number = 0
+): DocumentRelationships {
+  const filtered: DocumentRelationships = {};
+  for (const [type, edges] of Object.entries(relationships || {}) as [keyof DocumentRelationships, RelationshipEdge[]][]) {
+    const kept = filterEdges(edges, minConfidence);
+    if (kept.length > 0) filtered[type] = kept;
   }
+  return filtered;
 }
 
 export interface RelatedDocuments {
-  prerequisites?: DocumentSummary[];
-  followUps?: DocumentSummary[];
-  seeAlso?: DocumentSummary[];
-  dependents?: DocumentSummary[];
+  prerequisites?: RelatedDocument[];
+  followUps?: RelatedDocument[];
+  seeAlso?: RelatedDocument[];
+  dependents?: RelatedDocument[];
 }
 
 export interface DocumentSummary {
@@ -589,18 +741,20 @@ export interface DocumentSummary {
   category?: string;
 }
 
+export interface RelatedDocument extends DocumentSummary {
+  source: RelationshipSource;
+  confidence: number;
+  rule?: string;
+}
+
+// The most confident relationships of each type, as document summaries
 export function resolveRelatedDocuments(
   doc: Document, 
   allDocuments: Document[], 
-  maxPerType: number = 3
+  maxPerType: number = 3,
+  minConfidence: number = 0
 ): RelatedDocuments {
-  const docMap = new Map<string, Document>();
-  allDocuments.forEach(d => {
-    docMap.set(d.relativePath, d);
-    // Also index without .md extension for easier matching
-    const pathWithoutExt = d.relativePath.replace(/\.md$/, '');
-    docMap.set(pathWithoutExt, d);
-  });
+  const docMap = createDocumentMap(allDocuments);
 
   const related: RelatedDocuments = {};
 
@@ -608,40 +762,18 @@ export function resolveRelatedDocuments(
     return related;
   }
 
-  // Resolve prerequisites
-  if (doc.relationships.prerequisites && doc.relationships.prerequisites.length > 0) {
-    related.prerequisites = doc.relationships.prerequisites
+  const types: (keyof RelatedDocuments)[] = ['prerequisites', 'followUps', 'seeAlso', 'dependents'];
+  for (const type of types) {
+    const resolved = filterEdges(doc.relationships[type], minConfidence)
       .slice(0, maxPerType)
-      .map(path => findDocumentByPath(path, docMap))
-      .filter((d): d is Document => d !== null)
-      .map(d => createDocumentSummary(d));
-  }
-
-  // Resolve follow-ups
-  if (doc.relationships.followUps && doc.relationships.followUps.length > 0) {
-    related.followUps = doc.relationships.followUps
-      .slice(0, maxPerType)
-      .map(path => findDocumentByPath(path, docMap))
-      .filter((d): d is Document => d !== null)
-      .map(d => createDocumentSummary(d));
-  }
-
-  // Resolve see-also
-  if (doc.relationships.seeAlso && doc.relationships.seeAlso.length > 0) {
-    related.seeAlso = doc.relationships.seeAlso
-      .slice(0, maxPerType)
-      .map(path => findDocumentByPath(path, docMap))
-      .filter((d): d is Document => d !== null)
-      .map(d => createDocumentSummary(d));
-  }
-
-  // Resolve dependents (documents that reference this one)
-  if (doc.relationships.dependents && doc.relationships.dependents.length > 0) {
-    related.dependents = doc.relationships.dependents
-      .slice(0, maxPerType)
-      .map(path => findDocumentByPath(path, docMap))
-      .filter((d): d is Document => d !== null)
-      .map(d => createDocumentSummary(d));
+      .map((edge): RelatedDocument | undefined => {
+        const target = findDocumentByPath(edge.path, docMap);
+        return target && { ...createDocumentSummary(target), source: edge.source, confidence: edge.confidence, rule: edge.rule };
+      })
+      .filter((d): d is RelatedDocument => d !== undefined);
+    if (resolved.length > 0) {
+      related[type] = resolved;
+    }
   }
 
   return related;
@@ -0,0 +1,187 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { tokenize } from './search-index.js';
+
+// Turns text into vectors on this machine. Vectors are unit length, so a
+// dot product is their cosine similarity.
+export interface EmbeddingBackend {
+  id: string;          // Names the model and its settings; cached vectors are keyed by it
+  dimensions: number;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+export type EmbeddingBackendName = 'hashing' | 'transformers';
+
+// The little of transformers.js this module uses; the package is optional,
+// so its own types may not be installed
+interface FeatureExtractionOutput {
+  data: Float32Array;
+  dims: number[];
+}
+
+type FeatureExtractor = (texts: string[], options: { pooling: 'mean'; normalize: boolean }) => Promise<FeatureExtractionOutput>;
+
+interface TransformersLibrary {
+  pipeline(task: 'feature-extraction', model: string): Promise<FeatureExtractor>;
+}
+
+const DEFAULT_HASHING_DIMENSIONS = 512;
+const DEFAULT_TRANSFORMERS_MODEL = 'Xenova/all-MiniLM-L6-v2';
+const TRANSFORMERS_BATCH_SIZE = 16;
+
+// Character trigrams let "reschedule" and "rescheduling" share features;
+// they count for less than whole words
+const TRIGRAM_WEIGHT = 0.3;
+
+// 32-bit FNV-1a
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+// Feature hashing of words and character trigrams. Deterministic, instant
+// and needs no model, but only knows words that are spelled alike.
+export function createHashingBackend(dimensions: number = DEFAULT_HASHING_DIMENSIONS): EmbeddingBackend {
+  const embedOne = (text: string): Float32Array => {
+    const vector = new Float32Array(dimensions);
+    const add = (feature: string, weight: number) => {
+      const hash = hashFeature(feature);
+      // The top bit picks a sign so colliding features tend to cancel out
+      vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+    };
+    for (const token of tokenize(text)) {
+      add(`w:${token}`, 1);
+      const padded = `^${token}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+    return normalize(vector);
+  };
+
+  return {
+    id: `hashing-${dimensions}`,
+    dimensions,
+    embed: async texts => texts.map(embedOne)
+  };
+}
+
+// A sentence-embedding model run on the CPU with transformers.js. The
+// package is optional and loaded only when this backend is chosen; the
+// model is downloaded once into its own cache.
+export async function createTransformersBackend(model: string = DEFAULT_TRANSFORMERS_MODEL): Promise<EmbeddingBackend> {
+  let library: TransformersLibrary | undefined;
+  for (const name of ['@huggingface/transformers', '@xenova/transformers']) {
+    try {
+      library = await import(name) as TransformersLibrary;
+      break;
+    } catch (error) {
+      // Try the next package name
+    }
+  }
+  if (!library) {
+    throw new Error(
+      'The transformers embedding backend needs @huggingface/transformers; ' +
+      'install it with `npm install @huggingface/transformers` or use VA_DOCS_EMBEDDINGS=hashing'
+    );
+  }
+
+  const extractor = await library.pipeline('feature-extraction', model);
+  const probe = await extractor(['dimensions'], { pooling: 'mean', normalize: true });
+  const dimensions = probe.dims[probe.dims.length - 1];
+
+  return {
+    id: `transformers-${model}`,
+    dimensions,
+    embed: async texts => {
+      const vectors: Float32Array[] = [];
+      for (let start = 0; start < texts.length; start += TRANSFORMERS_BATCH_SIZE) {
+        const output = await extractor(texts.slice(start, start + TRANSFORMERS_BATCH_SIZE), { pooling: 'mean', normalize: true });
+        const data = output.data;
+        for (let row = 0; row * dimensions < data.length; row++) {
+          vectors.push(Float32Array.from(data.subarray(row * dimensions, (row + 1) * dimensions)));
+        }
+      }
+      return vectors;
+    }
+  };
+}
+
+// VA_DOCS_EMBEDDINGS picks the backend (default: hashing);
+// VA_DOCS_EMBEDDING_MODEL the model for the transformers backend
+export async function createEmbeddingBackendFromEnv(): Promise<EmbeddingBackend> {
+  const name = (process.env.VA_DOCS_EMBEDDINGS || 'hashing').toLowerCase();
+  switch (name) {
+    case 'hashing':
+      return createHashingBackend();
+    case 'transformers':
+      return createTransformersBackend(process.env.VA_DOCS_EMBEDDING_MODEL || DEFAULT_TRANSFORMERS_MODEL);
+    default:
+      throw new Error(`Unknown embedding backend "${name}" in VA_DOCS_EMBEDDINGS; use hashing or transformers`);
+  }
+}
+
+// Vectors of previously embedded text, keyed by a hash of the text
+export type EmbeddingCache = Map<string, Float32Array>;
+
+interface EmbeddingCacheFile {
+  backend: string;
+  dimensions: number;
+  vectors: Record<string, string>;  // Text hash to base64 float32 bytes
+}
+
+export function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex').slice(0, 32);
+}
+
+// One file per backend next to the index cache
+export function getEmbeddingCachePath(indexCachePath: string, backend: EmbeddingBackend): string {
+  return indexCachePath.replace(/\.json$/, `.embeddings-${backend.id.replace(/[^A-Za-z0-9.-]+/g, '_')}.json`);
+}
+
+// A missing, unreadable or mismatched file just means re-embedding
+export function readEmbeddingCache(cachePath: string, backend: EmbeddingBackend): EmbeddingCache {
+  const cache: EmbeddingCache = new Map();
+  if (!existsSync(cachePath)) return cache;
+
+  try {
+    const file: EmbeddingCacheFile = JSON.parse(readFileSync(cachePath, 'utf-8'));
+    if (file.backend !== backend.id || file.dimensions !== backend.dimensions) return cache;
+    for (const [hash, encoded] of Object.entries(file.vectors || {})) {
+      const bytes = Buffer.from(encoded, 'base64');
+      if (bytes.length !== backend.dimensions * 4) continue;
+      cache.set(hash, new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length)));
+    }
+  } catch (error) {
+    console.error(`Ignoring unreadable embedding cache at ${cachePath}: ${(error as Error).message}`);
+  }
+  return cache;
+}
+
+export function writeEmbeddingCache(cachePath: string, backend: EmbeddingBackend, cache: EmbeddingCache): void {
+  const vectors: Record<string, string> = {};
+  cache.forEach((vector, hash) => {
+    vectors[hash] = Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+  });
+  const file: EmbeddingCacheFile = { backend: backend.id, dimensions: backend.dimensions, vectors };
+
+  mkdirSync(dirname(cachePath), { recursive: true });
+  const tempPath = `${cachePath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(file));
+  renameSync(tempPath, cachePath);
+}
@@ -0,0 +1,88 @@
+import type { Document } from './docs.js';
+import { getLocalPath } from './sources.js';
+
+export const FACET_NAMES = ['source', 'category', 'subcategory', 'topic', 'documentType', 'freshness'] as const;
+export type FacetName = typeof FACET_NAMES[number];
+
+const FRONTMATTER_FACET_PREFIX = 'frontmatter.';
+
+// Age buckets, newest first; the same steps search uses for its freshness bonus
+const FRESHNESS_BUCKETS: { name: string; maxDays: number }[] = [
+  { name: 'last-30-days', maxDays: 30 },
+  { name: 'last-90-days', maxDays: 90 },
+  { name: 'last-180-days', maxDays: 180 },
+  { name: 'last-year', maxDays: 365 },
+  { name: 'over-a-year', maxDays: Infinity }
+];
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Keyed by facet name, e.g. { "category": [...], "frontmatter.status": [...] }
+export type FacetCounts = Record<string, FacetCount[]>;
+
+// Accepts the built-in facet names and frontmatter.<key>
+export function validateFacets(facets: unknown): string[] {
+  if (!Array.isArray(facets) || facets.some(facet => typeof facet !== 'string')) {
+    throw new Error('facets must be an array of facet names');
+  }
+  for (const facet of facets as string[]) {
+    const known = (FACET_NAMES as readonly string[]).includes(facet) ||
+      (facet.startsWith(FRONTMATTER_FACET_PREFIX) && facet.length > FRONTMATTER_FACET_PREFIX.length);
+    if (!known) {
+      throw new Error(`Unknown facet: ${facet}. Use ${FACET_NAMES.join(', ')} or frontmatter.<key>`);
+    }
+  }
+  return facets as string[];
+}
+
+export function getFreshnessBucket(doc: Document, now: number = Date.now()): string {
+  if (!doc.lastModified) return 'unknown';
+  const days = (now - new Date(doc.lastModified).getTime()) / (1000 * 60 * 60 * 24);
+  return FRESHNESS_BUCKETS.find(bucket => days < bucket.maxDays)!.name;
+}
+
+// Directory prefix of a document's path within its source, e.g. depth 2 of
+// products/health-care/appointments/README.md is products/health-care.
+// Files directly in a shallower directory have none.
+function getDirectoryPrefix(doc: Document, depth: number): string | undefined {
+  const segments = getLocalPath(doc.relativePath).split('/');
+  return segments.length > depth ? segments.slice(0, depth).join('/') : undefined;
+}
+
+function getFacetValues(doc: Document, facet: string, now: number): string[] {
+  let value: unknown;
+  switch (facet) {
+    case 'source': value = doc.source; break;
+    case 'category': value = doc.category; break;
+    case 'subcategory': value = getDirectoryPrefix(doc, 2); break;
+    case 'topic': value = getDirectoryPrefix(doc, 3); break;
+    case 'documentType': value = doc.documentType; break;
+    case 'freshness': value = getFreshnessBucket(doc, now); break;
+    default: value = doc.frontmatter?.[facet.slice(FRONTMATTER_FACET_PREFIX.length)];
+  }
+
+  // Frontmatter lists such as tags count once per entry
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter(entry => entry !== undefined && entry !== null && entry !== '' && typeof entry !== 'object')
+    .map(entry => String(entry));
+}
+
+// Documents per value of each facet, most common first
+export function computeFacets(documents: Document[], facets: string[]): FacetCounts {
+  const now = Date.now();
+  const result: FacetCounts = {};
+  for (const facet of facets) {
+    const counts = new Map<string, number>();
+    for (const doc of documents) {
+      new Set(getFacetValues(doc, facet, now)).forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+    }
+    result[facet] = Array.from(counts.entries())
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+  return result;
+}
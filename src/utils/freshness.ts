@@ -0,0 +1,293 @@
+import type { Document } from './docs.js';
+import { scanLines } from './markdown.js';
+
+export type FreshnessStatus = 'fresh' | 'aging' | 'outdated';
+
+// What made a document look stale, and how much it cost. Penalties
+// combine multiplicatively: two 0.5 penalties leave a score of 0.25.
+export interface FreshnessReason {
+  signal: 'age' | 'frontmatter' | 'path' | 'title' | 'banner' | 'statement' | 'version';
+  detail: string;
+  penalty: number;
+  line?: number;    // File line the evidence is on
+}
+
+export interface FreshnessAssessment {
+  score: number;    // 1 is fresh, 0 is certainly outdated
+  status: FreshnessStatus;
+  isOutdated: boolean;
+  reasons: FreshnessReason[];
+}
+
+// A pattern that marks references to unsupported software
+export interface VersionRule {
+  name: string;
+  pattern: string;      // Case-insensitive regular expression
+  description: string;
+}
+
+export interface FreshnessConfig {
+  markers?: string[];             // Words and phrases that mean "don't rely on this"
+  versionRules?: VersionRule[];
+  archiveDirectories?: string[];  // Path segments whose documents are archived
+  deprecatedStatuses?: string[];  // Frontmatter status values that retire a document
+  staleAfterDays?: number;        // Age at which a document counts as outdated on age alone
+}
+
+// At or below this score a document is outdated; exclude_outdated drops it
+export const OUTDATED_SCORE = 0.5;
+// At or below this it is aging, so even the smallest penalty (0.2 for age)
+// keeps a document from counting as fresh
+const AGING_SCORE = 0.8;
+
+// A banner is a notice near the top of the document
+const BANNER_LINES = 10;
+
+const PENALTIES = {
+  frontmatter: 0.9,
+  path: 0.7,
+  title: 0.7,
+  banner: 0.6,
+  statement: 0.6,
+  version: 0.35
+};
+
+const DEFAULT_CONFIG: Required<FreshnessConfig> = {
+  markers: ['deprecated', 'outdated', 'no longer maintained', 'archived', 'archive', 'legacy', 'obsolete', 'old version', 'superseded'],
+  versionRules: [
+    { name: 'node', pattern: '\\bnode(?:\\.?js)?\\s*(?:version\\s*)?v?1[0-2]\\b', description: 'References Node 12 or older' },
+    { name: 'ruby', pattern: '\\bruby\\s*(?:version\\s*)?2\\.[0-5]\\b', description: 'References Ruby 2.5 or older' },
+    { name: 'react', pattern: '\\breact\\s*(?:version\\s*)?v?1[0-5]\\b', description: 'References React 15 or older' }
+  ],
+  archiveDirectories: ['archive', 'archived', 'deprecated', 'obsolete'],
+  deprecatedStatuses: ['deprecated', 'archived', 'obsolete', 'retired', 'superseded', 'outdated'],
+  staleAfterDays: 365
+};
+
+let config: Required<FreshnessConfig> = DEFAULT_CONFIG;
+
+interface CompiledRules {
+  markers: RegExp;
+  statement: RegExp;
+  titlePrefix: RegExp;
+  versions: { rule: VersionRule; pattern: RegExp }[];
+}
+
+let compiled: CompiledRules = compileRules(DEFAULT_CONFIG);
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function compileRules(settings: Required<FreshnessConfig>): CompiledRules {
+  const markers = settings.markers.map(marker => escapeRegExp(marker).replace(/\s+/g, '\\s+')).join('|');
+  return {
+    markers: new RegExp(`\\b(${markers})\\b`, 'i'),
+    // "This guide is deprecated", "this page has been archived"
+    statement: new RegExp(
+      `\\bthis\\s+(?:document|doc|page|guide|readme|repo|repository|section|process|service|tool|product|runbook|content)\\s+` +
+      `(?:is|has\\s+been|was|is\\s+now|has\\s+now\\s+been)\\s+(?:now\\s+)?(${markers})\\b`,
+      'i'
+    ),
+    // "[Deprecated] Claims API", "Archived: Sprint process", but not "Legacy Claims API"
+    titlePrefix: new RegExp(`^\\W*(${markers})\\s*[:\\-–]|[\\[(](${markers})[\\])]`, 'i'),
+    versions: settings.versionRules.map(rule => ({ rule, pattern: new RegExp(rule.pattern, 'i') }))
+  };
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(entry => typeof entry === 'string' && entry.trim() !== '');
+}
+
+// Replaces any earlier configuration. Settings not given keep their defaults.
+export function configureFreshness(settings: FreshnessConfig): void {
+  for (const key of ['markers', 'archiveDirectories', 'deprecatedStatuses'] as const) {
+    if (settings[key] !== undefined && !isStringList(settings[key])) {
+      throw new Error(`Freshness setting ${key} must be a list of non-empty strings`);
+    }
+  }
+  if (settings.versionRules !== undefined) {
+    if (!Array.isArray(settings.versionRules)) {
+      throw new Error('Freshness setting versionRules must be a list of { name, pattern, description }');
+    }
+    settings.versionRules.forEach((rule, i) => {
+      if (!rule || typeof rule.name !== 'string' || typeof rule.pattern !== 'string' || typeof rule.description !== 'string') {
+        throw new Error(`Freshness versionRules[${i}] must have a name, pattern and description`);
+      }
+      try {
+        new RegExp(rule.pattern, 'i');
+      } catch (error) {
+        throw new Error(`Freshness versionRules[${i}] (${rule.name}) has an invalid pattern: ${(error as Error).message}`);
+      }
+    });
+  }
+  if (settings.staleAfterDays !== undefined && !(typeof settings.staleAfterDays === 'number' && settings.staleAfterDays > 0)) {
+    throw new Error('Freshness setting staleAfterDays must be a number greater than 0');
+  }
+
+  config = { ...DEFAULT_CONFIG, ...settings };
+  compiled = compileRules(config);
+}
+
+// Read VA_DOCS_FRESHNESS, a JSON FreshnessConfig, if it is set
+export function configureFreshnessFromEnv(): void {
+  const raw = process.env.VA_DOCS_FRESHNESS;
+  if (!raw) return;
+  let settings: FreshnessConfig;
+  try {
+    settings = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`VA_DOCS_FRESHNESS is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    throw new Error('VA_DOCS_FRESHNESS must be a JSON object');
+  }
+  configureFreshness(settings);
+}
+
+// Age costs nothing for the first half of staleAfterDays, then a little,
+// then makes the document outdated on its own at staleAfterDays
+function agePenalty(days: number): number {
+  const stale = config.staleAfterDays;
+  if (days < stale / 2) return 0;
+  if (days < stale) return 0.2;
+  return Math.min(0.7, 1 - OUTDATED_SCORE + 0.1 * Math.floor((days - stale) / stale));
+}
+
+function checkFrontmatter(doc: Document): FreshnessReason | undefined {
+  const frontmatter = doc.frontmatter || {};
+  for (const key of ['status', 'state', 'lifecycle']) {
+    const value = frontmatter[key];
+    if (typeof value === 'string' && config.deprecatedStatuses.includes(value.trim().toLowerCase())) {
+      return { signal: 'frontmatter', detail: `Frontmatter ${key} is "${value}"`, penalty: PENALTIES.frontmatter };
+    }
+  }
+  for (const key of ['deprecated', 'archived']) {
+    if (frontmatter[key] === true) {
+      return { signal: 'frontmatter', detail: `Frontmatter ${key} is true`, penalty: PENALTIES.frontmatter };
+    }
+  }
+  for (const key of ['superseded_by', 'supersededBy', 'replaced_by', 'replacedBy']) {
+    if (frontmatter[key]) {
+      return { signal: 'frontmatter', detail: `Frontmatter says it is replaced by ${frontmatter[key]}`, penalty: PENALTIES.frontmatter };
+    }
+  }
+  return undefined;
+}
+
+// Notices at the top of a document: blockquotes and admonitions, bold or
+// all-caps labels, and HTML banners. The same word in ordinary prose
+// ("archive the old records") says nothing about the document.
+function isBannerLine(text: string, marker: string): boolean {
+  const trimmed = text.trim();
+  if (/^>/.test(trimmed) || /^</.test(trimmed)) return true;
+  if (/^\s*[:!]{3}/.test(trimmed)) return true;
+  const emphasized = new RegExp(`(\\*\\*|__|\\*|_)\\s*${escapeRegExp(marker)}`, 'i');
+  if (emphasized.test(trimmed)) return true;
+  return marker.length > 3 && trimmed.includes(marker.toUpperCase());
+}
+
+function lineOf(doc: Document, offset: number): number {
+  return (doc.bodyStartLine || 1) + (doc.content.slice(0, offset).match(/\n/g) || []).length;
+}
+
+// How current a document looks, with every reason it lost points
+export function assessFreshness(doc: Document, now: number = Date.now()): FreshnessAssessment {
+  const reasons: FreshnessReason[] = [];
+
+  if (doc.lastModified) {
+    const days = Math.floor((now - new Date(doc.lastModified).getTime()) / (1000 * 60 * 60 * 24));
+    const penalty = agePenalty(days);
+    if (penalty > 0) {
+      reasons.push({ signal: 'age', detail: `Last modified ${days} days ago`, penalty });
+    }
+  }
+
+  const frontmatter = checkFrontmatter(doc);
+  if (frontmatter) reasons.push(frontmatter);
+
+  const archiveDirectory = doc.relativePath.split('/').slice(0, -1)
+    .find(segment => config.archiveDirectories.includes(segment.toLowerCase()));
+  if (archiveDirectory) {
+    reasons.push({ signal: 'path', detail: `Stored under ${archiveDirectory}/`, penalty: PENALTIES.path });
+  }
+
+  const titleMatch = doc.title.match(compiled.titlePrefix);
+  if (titleMatch) {
+    reasons.push({ signal: 'title', detail: `Title is marked "${titleMatch[1] || titleMatch[2]}"`, penalty: PENALTIES.title });
+  }
+
+  const lines = scanLines(doc.content).filter(line => !line.inFence);
+  const banner = lines
+    .filter(line => line.text.trim() !== '')
+    .slice(0, BANNER_LINES)
+    .map(line => ({ line, marker: line.text.match(compiled.markers)?.[1] }))
+    .find(({ line, marker }) => marker && isBannerLine(line.text, marker));
+  if (banner) {
+    reasons.push({ signal: 'banner', detail: `Notice at the top says "${banner.line.text.trim()}"`, penalty: PENALTIES.banner, line: lineOf(doc, banner.line.offset) });
+  }
+
+  const statement = lines.find(line => compiled.statement.test(line.text));
+  if (statement && !banner) {
+    const sentence = statement.text.match(compiled.statement)![0];
+    reasons.push({ signal: 'statement', detail: `Says "${sentence}"`, penalty: PENALTIES.statement, line: lineOf(doc, statement.offset) });
+  }
+
+  for (const { rule, pattern } of compiled.versions) {
+    const match = doc.content.match(pattern);
+    if (match) {
+      reasons.push({ signal: 'version', detail: `${rule.description} ("${match[0]}")`, penalty: PENALTIES.version, line: lineOf(doc, match.index!) });
+    }
+  }
+
+  const score = Math.round(reasons.reduce((remaining, reason) => remaining * (1 - reason.penalty), 1) * 100) / 100;
+  const status: FreshnessStatus = score <= OUTDATED_SCORE ? 'outdated' : score <= AGING_SCORE ? 'aging' : 'fresh';
+  return { score, status, isOutdated: status === 'outdated', reasons };
+}
+
+export interface CategoryFreshness {
+  category: string;
+  documentCount: number;
+  outdatedCount: number;
+  averageScore: number;
+  stalest: (Omit<FreshnessAssessment, 'isOutdated'> & { path: string; title: string; lastModified?: Date })[];
+}
+
+// Per category, the documents with the lowest scores first. Documents
+// scoring above maxScore are left out of the lists but still counted.
+export function buildFreshnessReport(
+  documents: Document[],
+  options: { limit?: number; maxScore?: number } = {}
+): CategoryFreshness[] {
+  const { limit = 5, maxScore = AGING_SCORE } = options;
+  const now = Date.now();
+  const byCategory = new Map<string, { doc: Document; assessment: FreshnessAssessment }[]>();
+  for (const doc of documents) {
+    const category = doc.category || 'general';
+    if (!byCategory.has(category)) byCategory.set(category, []);
+    byCategory.get(category)!.push({ doc, assessment: assessFreshness(doc, now) });
+  }
+
+  return Array.from(byCategory.keys()).sort().map(category => {
+    const entries = byCategory.get(category)!;
+    const total = entries.reduce((sum, entry) => sum + entry.assessment.score, 0);
+    return {
+      category,
+      documentCount: entries.length,
+      outdatedCount: entries.filter(entry => entry.assessment.isOutdated).length,
+      averageScore: Math.round((total / entries.length) * 100) / 100,
+      stalest: entries
+        .filter(entry => entry.assessment.score <= maxScore)
+        .sort((a, b) => a.assessment.score - b.assessment.score || a.doc.relativePath.localeCompare(b.doc.relativePath))
+        .slice(0, limit)
+        .map(({ doc, assessment: { score, status, reasons } }) => ({
+          path: doc.relativePath,
+          title: doc.title,
+          lastModified: doc.lastModified,
+          score,
+          status,
+          reasons
+        }))
+    };
+  });
+}
@@ -0,0 +1,432 @@
+import { execFile, spawn } from 'child_process';
+import { createInterface } from 'readline';
+import { promisify } from 'util';
+import type { Document } from './docs.js';
+import { DocSource, getLocalPath } from './sources.js';
+
+const execFileAsync = promisify(execFile);
+
+// Field and record separators for --format output; neither appears in commit metadata
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+const COMMIT_FORMAT = `${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%cI${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%ae${FIELD_SEPARATOR}%s`;
+
+export interface GitFileInfo {
+  lastCommit: string;
+  lastCommitDate: string;   // ISO dates, so the record survives the JSON cache as-is
+  lastAuthor: string;
+  commitCount: number;
+  firstAdded: string;
+  uncommittedChanges?: boolean;  // Working copy differs from the last commit
+}
+
+// Per-file history at one HEAD, so later loads only read newer commits
+export interface GitHistorySnapshot {
+  head: string;
+  files: Record<string, GitFileInfo>;  // Keyed by path relative to the docs directory
+}
+
+// Snapshots of every source that is a git checkout, keyed by source id
+export type SourceHistories = Record<string, GitHistorySnapshot>;
+
+export interface GitCommit {
+  hash: string;
+  date: string;
+  author: string;
+  email: string;
+  subject: string;
+  path?: string;       // The document's path in this commit, when it has since been renamed
+  additions?: number;
+  deletions?: number;
+}
+
+async function runGit(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', ['-c', 'core.quotePath=false', ...args], {
+    cwd,
+    maxBuffer: 64 * 1024 * 1024
+  });
+  return stdout;
+}
+
+// Large histories don't fit in one buffer, so read git's output line by line
+function streamGitLines(cwd: string, args: string[], onLine: (line: string) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', ['-c', 'core.quotePath=false', ...args], { cwd, stdio: ['ignore', 'pipe', 'pipe'] });
+    let stderr = '';
+    child.stderr.on('data', chunk => { stderr += chunk; });
+    createInterface({ input: child.stdout }).on('line', onLine);
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`git ${args[0]} failed: ${stderr.trim() || `exit code ${code}`}`));
+      }
+    });
+  });
+}
+
+// Null when docsPath isn't inside a git work tree, or git isn't installed
+export async function getGitHead(docsPath: string): Promise<string | null> {
+  try {
+    return (await runGit(docsPath, ['rev-parse', 'HEAD'])).trim();
+  } catch (error) {
+    return null;
+  }
+}
+
+// Paths from git are relative to the repository root; documents are
+// relative to the docs directory, which may be a subdirectory of it
+async function getPathPrefix(docsPath: string): Promise<string> {
+  return (await runGit(docsPath, ['rev-parse', '--show-prefix'])).trim();
+}
+
+function stripPrefix(path: string, prefix: string): string | null {
+  return path.startsWith(prefix) ? path.slice(prefix.length) : null;
+}
+
+function parseCommitLine(line: string): GitCommit {
+  const [hash, date, author, email, subject] = line.slice(1).split(FIELD_SEPARATOR);
+  return { hash, date, author, email, subject };
+}
+
+// Walk commits newest first, reporting each change to a document under
+// its current name. Renames carry a file's older history over to the new
+// name; a deletion ends it, so a path that is later re-created starts afresh.
+async function walkFileCommits(
+  docsPath: string,
+  range: string[],
+  onChange: (path: string, commit: GitCommit, status: string) => void
+): Promise<{ renames: [string, string][] }> {
+  const prefix = await getPathPrefix(docsPath);
+  const aliases = new Map<string, string>();   // Older name -> current name
+  const ended = new Set<string>();
+  const renames: [string, string][] = [];
+  let commit: GitCommit | null = null;
+
+  const resolve = (path: string) => aliases.get(path) || path;
+
+  const report = (path: string, status: string) => {
+    if (commit && !ended.has(path) && path.endsWith('.md')) onChange(path, commit, status);
+  };
+
+  await streamGitLines(
+    docsPath,
+    ['log', `--format=${COMMIT_FORMAT}`, '--name-status', '-M', ...range, '--', '.'],
+    line => {
+      if (line.startsWith(RECORD_SEPARATOR)) {
+        commit = parseCommitLine(line);
+        return;
+      }
+      const [status, ...paths] = line.split('\t');
+      if (!status || paths.length === 0) return;
+
+      const relativePaths = paths.map(path => stripPrefix(path, prefix));
+      if (status.startsWith('R')) {
+        const [from, to] = relativePaths;
+        if (to === null) return;
+        const current = resolve(to);
+        report(current, 'R');
+        if (from !== null) {
+          aliases.set(from, current);
+          renames.push([from, current]);
+        }
+        return;
+      }
+
+      const path = relativePaths[0];
+      if (path === null) return;
+      const current = resolve(path);
+      report(current, status[0]);
+      if (status === 'D') ended.add(current);
+    }
+  );
+
+  return { renames };
+}
+
+// Fold a range of commits into per-file records
+async function accumulateHistory(
+  docsPath: string,
+  range: string[],
+  files: Record<string, GitFileInfo>
+): Promise<{ renames: [string, string][] }> {
+  const created = new Set<string>();
+  const updated = new Set<string>();
+
+  return walkFileCommits(docsPath, range, (path, commit, status) => {
+    if (status === 'D') return;
+    let info = files[path];
+    if (!info) {
+      info = files[path] = {
+        lastCommit: commit.hash,
+        lastCommitDate: commit.date,
+        lastAuthor: commit.author,
+        commitCount: 0,
+        firstAdded: commit.date
+      };
+      created.add(path);
+      updated.add(path);
+    } else if (!updated.has(path)) {
+      info.lastCommit = commit.hash;
+      info.lastCommitDate = commit.date;
+      info.lastAuthor = commit.author;
+      updated.add(path);
+    }
+    info.commitCount++;
+    if (created.has(path)) info.firstAdded = commit.date;
+  });
+}
+
+// Read per-file history, starting from a previous snapshot when HEAD has
+// only moved forward since. Null when docsPath isn't a git repository.
+export async function readGitHistory(
+  docsPath: string,
+  previous?: GitHistorySnapshot | null
+): Promise<GitHistorySnapshot | null> {
+  const head = await getGitHead(docsPath);
+  if (!head) return null;
+  if (previous?.head === head) return previous;
+
+  if (previous) {
+    try {
+      await runGit(docsPath, ['merge-base', '--is-ancestor', previous.head, head]);
+      const files: Record<string, GitFileInfo> = {};
+      for (const [path, info] of Object.entries(previous.files)) {
+        files[path] = { ...info };
+      }
+      const known = new Set(Object.keys(files));
+      const { renames } = await accumulateHistory(docsPath, [`${previous.head}..${head}`], files);
+
+      // A file renamed since the snapshot keeps its earlier history
+      for (const [from, to] of renames) {
+        const older = previous.files[from];
+        if (older && !known.has(to) && files[to]) {
+          files[to].commitCount += older.commitCount;
+          files[to].firstAdded = older.firstAdded;
+          delete files[from];
+        }
+      }
+      return { head, files };
+    } catch (error) {
+      // History was rewritten (rebase, force push); fall back to a full read
+    }
+  }
+
+  const files: Record<string, GitFileInfo> = {};
+  try {
+    await accumulateHistory(docsPath, [head], files);
+  } catch (error) {
+    console.error('Could not read git history; using file modification times:', error);
+    return null;
+  }
+  return { head, files };
+}
+
+// Documents with staged or unstaged edits, relative to the docs directory
+export async function getUncommittedPaths(docsPath: string): Promise<Set<string>> {
+  const paths = new Set<string>();
+  try {
+    const prefix = await getPathPrefix(docsPath);
+    const entries = (await runGit(docsPath, ['status', '--porcelain', '-z', '--untracked-files=no', '--', '.'])).split('\0');
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      if (entry.length < 4) continue;
+      const path = stripPrefix(entry.slice(3), prefix);
+      if (path !== null) paths.add(path);
+      // Renames are followed by their original path
+      if (entry[0] === 'R' || entry[0] === 'C') i++;
+    }
+  } catch (error) {
+    // Not a repository; nothing is uncommitted
+  }
+  return paths;
+}
+
+// Committed files take their dates from git; uncommitted edits and
+// untracked files keep the filesystem mtime set during parsing. The
+// documents must all come from the repository the history was read from.
+export function applyGitMetadata(
+  documents: Document[],
+  history: GitHistorySnapshot | null,
+  uncommitted: Set<string> = new Set()
+): void {
+  if (!history) return;
+
+  for (const doc of documents) {
+    const localPath = getLocalPath(doc.relativePath);
+    const info = history.files[localPath];
+    if (!info) {
+      doc.git = undefined;
+      continue;
+    }
+    const dirty = uncommitted.has(localPath);
+    doc.git = { ...info, uncommittedChanges: dirty || undefined };
+    if (!dirty) {
+      doc.lastModified = new Date(info.lastCommitDate);
+    }
+  }
+}
+
+// readGitHistory for each source, skipping those that aren't checkouts
+export async function readSourceHistories(sources: DocSource[], previous: SourceHistories = {}): Promise<SourceHistories> {
+  const histories: SourceHistories = {};
+  for (const source of sources) {
+    const history = await readGitHistory(source.path, previous[source.id]);
+    if (history) histories[source.id] = history;
+  }
+  return histories;
+}
+
+export async function applySourceHistories(documents: Document[], sources: DocSource[], histories: SourceHistories): Promise<void> {
+  for (const source of sources) {
+    const history = histories[source.id];
+    if (!history) continue;
+    const fromSource = documents.filter(doc => doc.source === source.id);
+    applyGitMetadata(fromSource, history, await getUncommittedPaths(source.path));
+  }
+}
+
+// Refs come from tool arguments, so refuse anything git could read as an option
+async function resolveRevision(docsPath: string, ref: string): Promise<string> {
+  if (!ref || ref.startsWith('-') || /\s/.test(ref)) {
+    throw new Error(`Invalid revision: ${ref}`);
+  }
+  try {
+    return (await runGit(docsPath, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`])).trim();
+  } catch (error) {
+    throw new Error(`Unknown revision: ${ref}`);
+  }
+}
+
+// Recent commits touching a document, following it across renames
+export async function getDocumentHistory(docsPath: string, relativePath: string, limit: number = 10): Promise<GitCommit[]> {
+  const prefix = await getPathPrefix(docsPath);
+  const commits: GitCommit[] = [];
+
+  await streamGitLines(
+    docsPath,
+    ['log', '--follow', `-n${limit}`, `--format=${COMMIT_FORMAT}`, '--numstat', '--', relativePath],
+    line => {
+      if (line.startsWith(RECORD_SEPARATOR)) {
+        commits.push(parseCommitLine(line));
+        return;
+      }
+      const match = line.match(/^(\d+|-)\t(\d+|-)\t(.+)$/);
+      const commit = commits[commits.length - 1];
+      if (!match || !commit) return;
+
+      commit.additions = match[1] === '-' ? undefined : Number(match[1]);
+      commit.deletions = match[2] === '-' ? undefined : Number(match[2]);
+      // Renamed files show as "old => new" or "dir/{old => new}"
+      const path = stripPrefix(match[3].replace(/\{[^}]* => ([^}]*)\}/, '$1').replace(/^.* => /, '').replace(/\/\//g, '/'), prefix);
+      if (path && path !== relativePath) commit.path = path;
+    }
+  );
+
+  return commits;
+}
+
+// Unified diff of one document between two revisions; "to" defaults to HEAD.
+// Earlier names are included so a diff across a rename shows the edits.
+export async function getDocumentDiff(docsPath: string, relativePath: string, from: string, to: string = 'HEAD'): Promise<string> {
+  const fromCommit = await resolveRevision(docsPath, from);
+  const toCommit = await resolveRevision(docsPath, to);
+  const prefix = await getPathPrefix(docsPath);
+  const names = (await runGit(docsPath, ['log', '--follow', '--name-only', '--format=', '--', relativePath]))
+    .split('\n')
+    .map(path => stripPrefix(path.trim(), prefix))
+    .filter((path): path is string => Boolean(path));
+  const paths = Array.from(new Set([relativePath, ...names]));
+  return runGit(docsPath, ['diff', '--no-color', '--no-ext-diff', '-M', fromCommit, toCommit, '--', ...paths]);
+}
+
+// Git's empty tree, for comparing against a point before the first commit
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+export interface FileChange {
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  path: string;
+  previousPath?: string;  // Name before a rename
+  additions?: number;     // Undefined for binary files
+  deletions?: number;
+}
+
+const CHANGE_STATUS: Record<string, FileChange['status']> = {
+  A: 'added',
+  M: 'modified',
+  T: 'modified',
+  D: 'deleted',
+  R: 'renamed'
+};
+
+// "since" is either a date ("2024-06-01", "2 weeks ago") or a revision.
+// Dates resolve to the last mainline commit before them, or the empty tree
+// when the repository is younger than that.
+export async function resolveSince(docsPath: string, since: string): Promise<string> {
+  if (/^\d{4}-\d{2}-\d{2}/.test(since) || /\bago$/i.test(since.trim())) {
+    const base = (await runGit(docsPath, ['rev-list', '-1', '--first-parent', `--before=${since}`, 'HEAD'])).trim();
+    return base || EMPTY_TREE;
+  }
+  return resolveRevision(docsPath, since);
+}
+
+// Net changes to documents between two revisions, renames detected
+export async function getChangedFiles(docsPath: string, base: string, head: string = 'HEAD'): Promise<FileChange[]> {
+  const prefix = await getPathPrefix(docsPath);
+  const changes = new Map<string, FileChange>();
+
+  const statusFields = (await runGit(docsPath, ['diff', '-z', '--name-status', '-M', base, head, '--', '.'])).split('\0');
+  for (let i = 0; i < statusFields.length - 1; i++) {
+    const status = CHANGE_STATUS[statusFields[i][0]];
+    const from = statusFields[++i];
+    const to = status === 'renamed' ? statusFields[++i] : from;
+    const path = stripPrefix(to, prefix);
+    if (!status || path === null || !(path.endsWith('.md') || from.endsWith('.md'))) continue;
+
+    const change: FileChange = { status, path };
+    if (status === 'renamed') change.previousPath = stripPrefix(from, prefix) ?? from;
+    changes.set(path, change);
+  }
+
+  // --numstat -z writes "added<TAB>deleted<TAB>path" or, for renames,
+  // "added<TAB>deleted<TAB>" followed by the old and new paths
+  const statFields = (await runGit(docsPath, ['diff', '-z', '--numstat', '-M', base, head, '--', '.'])).split('\0');
+  for (let i = 0; i < statFields.length - 1; i++) {
+    const [additions, deletions, path] = statFields[i].split('\t');
+    let to = path;
+    if (!to) {
+      to = statFields[i + 2];
+      i += 2;
+    }
+    const change = changes.get(stripPrefix(to, prefix) ?? to);
+    if (!change) continue;
+    change.additions = additions === '-' ? undefined : Number(additions);
+    change.deletions = deletions === '-' ? undefined : Number(deletions);
+  }
+
+  return Array.from(changes.values());
+}
+
+// Commits between two revisions, newest first, grouped by the current name
+// of each document they touched
+export async function getFileCommits(docsPath: string, base: string, head: string = 'HEAD'): Promise<Map<string, GitCommit[]>> {
+  const commits = new Map<string, GitCommit[]>();
+  const range = base === EMPTY_TREE ? [head] : [`${base}..${head}`];
+  await walkFileCommits(docsPath, range, (path, commit) => {
+    const list = commits.get(path) || [];
+    list.push(commit);
+    commits.set(path, list);
+  });
+  return commits;
+}
+
+// Content of a document at a revision, or null if it didn't exist there
+export async function readFileAtRevision(docsPath: string, revision: string, relativePath: string): Promise<string | null> {
+  if (revision === EMPTY_TREE) return null;
+  try {
+    return await runGit(docsPath, ['show', `${revision}:./${relativePath}`]);
+  } catch (error) {
+    return null;
+  }
+}
@@ -0,0 +1,401 @@
+import { Document, RelationshipEdge, RelationshipSource } from './docs.js';
+
+// "prerequisite" edges point from a document to something to read first;
+// "followUp" edges point to something to read next
+export type EdgeType = 'link' | 'prerequisite' | 'followUp' | 'seeAlso';
+export type Direction = 'out' | 'in' | 'both';
+export type GraphFormat = 'json' | 'mermaid' | 'dot';
+
+export const EDGE_TYPES: EdgeType[] = ['link', 'prerequisite', 'followUp', 'seeAlso'];
+
+// Neighborhoods grow quickly on a densely linked repo
+export const MAX_NEIGHBORHOOD_DEPTH = 4;
+const MAX_NEIGHBORHOOD_NODES = 200;
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  type: EdgeType;
+  source?: RelationshipSource;  // Relationship edges only
+  confidence?: number;
+}
+
+export interface GraphNode {
+  path: string;
+  title: string;
+  category?: string;
+  documentType?: string;
+  distance?: number;   // Hops from the starting document
+  position?: number;   // 1-based place in a reading order
+}
+
+export interface DocumentGraph {
+  documents: Map<string, Document>;
+  outgoing: Map<string, GraphEdge[]>;
+  incoming: Map<string, GraphEdge[]>;
+}
+
+export interface TraversalOptions {
+  direction?: Direction;
+  edgeTypes?: EdgeType[];
+}
+
+export interface GraphResult {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  truncated?: boolean;
+}
+
+export interface ReadingOrder extends GraphResult {
+  cycles: string[][];  // Documents whose prerequisites loop back on each other
+}
+
+export function buildDocumentGraph(documents: Document[]): DocumentGraph {
+  const graph: DocumentGraph = {
+    documents: new Map(documents.map(doc => [doc.relativePath, doc])),
+    outgoing: new Map(),
+    incoming: new Map()
+  };
+  const seen = new Set<string>();
+
+  const addEdge = (from: string, to: string, type: EdgeType, relationship?: RelationshipEdge) => {
+    const key = `${from}\n${to}\n${type}`;
+    if (from === to || !graph.documents.has(to) || seen.has(key)) return;
+    seen.add(key);
+    const edge: GraphEdge = relationship
+      ? { from, to, type, source: relationship.source, confidence: relationship.confidence }
+      : { from, to, type };
+    if (!graph.outgoing.has(from)) graph.outgoing.set(from, []);
+    if (!graph.incoming.has(to)) graph.incoming.set(to, []);
+    graph.outgoing.get(from)!.push(edge);
+    graph.incoming.get(to)!.push(edge);
+  };
+
+  for (const doc of documents) {
+    doc.linkedDocuments?.forEach(target => addEdge(doc.relativePath, target, 'link'));
+
+    const relationships = doc.relationships || {};
+    const declared: [RelationshipEdge[] | undefined, EdgeType][] = [
+      [relationships.prerequisites, 'prerequisite'],
+      [relationships.followUps, 'followUp'],
+      [relationships.seeAlso, 'seeAlso']
+    ];
+    for (const [edges, type] of declared) {
+      edges?.forEach(edge => addEdge(doc.relativePath, edge.path, type, edge));
+    }
+  }
+
+  return graph;
+}
+
+function requireDocument(graph: DocumentGraph, path: string): Document {
+  const doc = graph.documents.get(path);
+  if (!doc) {
+    throw new Error(`Document not found: ${path}`);
+  }
+  return doc;
+}
+
+function toNode(doc: Document, extra: Partial<GraphNode> = {}): GraphNode {
+  return {
+    path: doc.relativePath,
+    title: doc.title,
+    category: doc.category,
+    documentType: doc.documentType,
+    ...extra
+  };
+}
+
+// Edges leaving a node in the requested direction, with the node at the far end
+function adjacentEdges(graph: DocumentGraph, path: string, options: TraversalOptions): { edge: GraphEdge; next: string }[] {
+  const { direction = 'out', edgeTypes = EDGE_TYPES } = options;
+  const result: { edge: GraphEdge; next: string }[] = [];
+
+  if (direction !== 'in') {
+    for (const edge of graph.outgoing.get(path) || []) {
+      if (edgeTypes.includes(edge.type)) result.push({ edge, next: edge.to });
+    }
+  }
+  if (direction !== 'out') {
+    for (const edge of graph.incoming.get(path) || []) {
+      if (edgeTypes.includes(edge.type)) result.push({ edge, next: edge.from });
+    }
+  }
+
+  return result;
+}
+
+// Every document within `depth` hops, breadth first
+export function getNeighborhood(
+  graph: DocumentGraph,
+  path: string,
+  depth: number = 1,
+  options: TraversalOptions = {}
+): GraphResult {
+  const start = requireDocument(graph, path);
+  const maxDepth = Math.min(Math.max(depth, 1), MAX_NEIGHBORHOOD_DEPTH);
+  const distances = new Map<string, number>([[start.relativePath, 0]]);
+  let frontier = [start.relativePath];
+  let truncated = false;
+
+  for (let distance = 1; distance <= maxDepth && frontier.length > 0 && !truncated; distance++) {
+    const next: string[] = [];
+    for (const current of frontier) {
+      for (const { next: neighbor } of adjacentEdges(graph, current, options)) {
+        if (distances.has(neighbor)) continue;
+        if (distances.size >= MAX_NEIGHBORHOOD_NODES) {
+          truncated = true;
+          break;
+        }
+        distances.set(neighbor, distance);
+        next.push(neighbor);
+      }
+    }
+    frontier = next;
+  }
+
+  const nodes = Array.from(distances.entries()).map(([nodePath, distance]) =>
+    toNode(graph.documents.get(nodePath)!, { distance })
+  );
+  return { nodes, edges: edgesBetween(graph, new Set(distances.keys()), options.edgeTypes), truncated: truncated || undefined };
+}
+
+// Fewest hops from one document to another, or null if they aren't connected
+export function findShortestPath(
+  graph: DocumentGraph,
+  from: string,
+  to: string,
+  options: TraversalOptions = {}
+): GraphResult | null {
+  requireDocument(graph, from);
+  requireDocument(graph, to);
+
+  const previous = new Map<string, { node: string; edge: GraphEdge } | null>([[from, null]]);
+  const queue = [from];
+
+  while (queue.length > 0 && !previous.has(to)) {
+    const current = queue.shift()!;
+    for (const { edge, next } of adjacentEdges(graph, current, options)) {
+      if (previous.has(next)) continue;
+      previous.set(next, { node: current, edge });
+      queue.push(next);
+    }
+  }
+
+  if (!previous.has(to)) {
+    return null;
+  }
+
+  const steps: string[] = [];
+  const edges: GraphEdge[] = [];
+  for (let step: string | undefined = to; step !== undefined;) {
+    const entry = previous.get(step);
+    steps.unshift(step);
+    if (entry) edges.unshift(entry.edge);
+    step = entry?.node;
+  }
+
+  return {
+    nodes: steps.map((step, index) => toNode(graph.documents.get(step)!, { distance: index })),
+    edges
+  };
+}
+
+// "Read A before B" constraints among a set of documents
+function orderingConstraints(graph: DocumentGraph, paths: Set<string>): Map<string, Set<string>> {
+  const before = new Map<string, Set<string>>();
+  paths.forEach(path => before.set(path, new Set()));
+
+  for (const path of paths) {
+    for (const edge of graph.outgoing.get(path) || []) {
+      if (!paths.has(edge.to)) continue;
+      if (edge.type === 'prerequisite') before.get(path)!.add(edge.to);
+      if (edge.type === 'followUp') before.get(edge.to)!.add(path);
+    }
+  }
+
+  return before;
+}
+
+// Tarjan's algorithm over "read first" edges; components with more than
+// one document are prerequisite cycles
+function findStronglyConnected(paths: string[], successors: Map<string, Set<string>>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let counter = 0;
+
+  const visit = (path: string) => {
+    index.set(path, counter);
+    lowLink.set(path, counter);
+    counter++;
+    stack.push(path);
+    onStack.add(path);
+
+    for (const next of successors.get(path) || []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(path, Math.min(lowLink.get(path)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(path, Math.min(lowLink.get(path)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(path) === index.get(path)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== path);
+      components.push(component.sort());
+    }
+  };
+
+  paths.forEach(path => {
+    if (!index.has(path)) visit(path);
+  });
+  return components;
+}
+
+// Documents to read around a starting point: its prerequisites, recursively,
+// then the document, then its follow-ups
+function collectReadingSet(graph: DocumentGraph, path: string): Set<string> {
+  const collected = new Set<string>([path]);
+  const walk = (start: string, type: EdgeType) => {
+    const queue = [start];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const edge of graph.outgoing.get(current) || []) {
+        if (edge.type !== type || collected.has(edge.to)) continue;
+        collected.add(edge.to);
+        queue.push(edge.to);
+      }
+    }
+  };
+  walk(path, 'prerequisite');
+  walk(path, 'followUp');
+  return collected;
+}
+
+// Order documents so prerequisites come before the documents that need
+// them and follow-ups after. Cycles are reported and their members kept
+// together. Either start from one document or order a whole category or
+// directory.
+export function getReadingOrder(
+  graph: DocumentGraph,
+  scope: { path?: string; category?: string; prefix?: string }
+): ReadingOrder {
+  let paths: Set<string>;
+  if (scope.path) {
+    requireDocument(graph, scope.path);
+    paths = collectReadingSet(graph, scope.path);
+  } else {
+    const prefix = scope.prefix?.replace(/\/+$/, '');
+    paths = new Set(Array.from(graph.documents.values())
+      .filter(doc => !scope.category || doc.category === scope.category)
+      .filter(doc => !prefix || doc.relativePath.startsWith(prefix + '/'))
+      .map(doc => doc.relativePath));
+  }
+
+  const before = orderingConstraints(graph, paths);
+  const successors = new Map<string, Set<string>>();
+  paths.forEach(path => successors.set(path, new Set()));
+  before.forEach((predecessors, path) => predecessors.forEach(first => successors.get(first)!.add(path)));
+
+  const sortedPaths = Array.from(paths).sort();
+  const components = findStronglyConnected(sortedPaths, successors);
+  const componentOf = new Map<string, number>();
+  components.forEach((component, id) => component.forEach(path => componentOf.set(path, id)));
+
+  // Kahn's algorithm over the components; ties go to the earliest path so
+  // the order is stable between calls
+  const remaining = components.map(() => 0);
+  const componentSuccessors = components.map(() => new Set<number>());
+  successors.forEach((nexts, path) => nexts.forEach(next => {
+    const from = componentOf.get(path)!;
+    const to = componentOf.get(next)!;
+    if (from !== to && !componentSuccessors[from].has(to)) {
+      componentSuccessors[from].add(to);
+      remaining[to]++;
+    }
+  }));
+
+  const ready = components.map((_, id) => id).filter(id => remaining[id] === 0);
+  const ordered: string[] = [];
+  while (ready.length > 0) {
+    ready.sort((a, b) => components[a][0].localeCompare(components[b][0]));
+    const id = ready.shift()!;
+    ordered.push(...components[id]);
+    componentSuccessors[id].forEach(next => {
+      if (--remaining[next] === 0) ready.push(next);
+    });
+  }
+
+  const nodes = ordered.map((path, index) => toNode(graph.documents.get(path)!, { position: index + 1 }));
+  return {
+    nodes,
+    edges: edgesBetween(graph, paths, ['prerequisite', 'followUp']),
+    cycles: components.filter(component => component.length > 1)
+  };
+}
+
+function edgesBetween(graph: DocumentGraph, paths: Set<string>, edgeTypes: EdgeType[] = EDGE_TYPES): GraphEdge[] {
+  const edges: GraphEdge[] = [];
+  for (const path of paths) {
+    for (const edge of graph.outgoing.get(path) || []) {
+      if (paths.has(edge.to) && edgeTypes.includes(edge.type)) edges.push(edge);
+    }
+  }
+  return edges;
+}
+
+function nodeLabel(node: GraphNode): string {
+  return node.position ? `${node.position}. ${node.title}` : node.title;
+}
+
+export function toMermaid(result: GraphResult): string {
+  const ids = new Map(result.nodes.map((node, index) => [node.path, `n${index}`]));
+  const escape = (text: string) => text.replace(/"/g, '#quot;');
+  const lines = ['graph LR'];
+
+  result.nodes.forEach(node => {
+    lines.push(`  ${ids.get(node.path)}["${escape(nodeLabel(node))}"]`);
+  });
+  result.edges.forEach(edge => {
+    const arrow = edge.type === 'link' ? '-->' : `-.->|${edge.type}|`;
+    lines.push(`  ${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}`);
+  });
+
+  return lines.join('\n');
+}
+
+export function toDot(result: GraphResult): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const lines = ['digraph docs {', '  rankdir=LR;', '  node [shape=box];'];
+
+  result.nodes.forEach(node => {
+    lines.push(`  ${quote(node.path)} [label=${quote(nodeLabel(node))}];`);
+  });
+  result.edges.forEach(edge => {
+    const style = edge.type === 'link' ? '' : ` [label=${quote(edge.type)}, style=dashed]`;
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${style};`);
+  });
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+export function formatGraph(result: GraphResult, format: GraphFormat = 'json'): string {
+  switch (format) {
+    case 'mermaid':
+      return toMermaid(result);
+    case 'dot':
+      return toDot(result);
+    default:
+      return JSON.stringify(result, null, 2);
+  }
+}
@@ -0,0 +1,216 @@
+import type { Document, RelationshipEdge } from './docs.js';
+import type { DeclaredRelationship } from './relationships.js';
+import { SimilarityIndex, findSimilarDocuments, getSharedSimilarityIndex } from './similarity.js';
+
+// score (0-1) scales the rule's confidence for this one target
+export interface InferredTarget {
+  doc: Document;
+  score?: number;
+}
+
+// A named heuristic that guesses relationships an author didn't declare.
+// Candidates are the other documents in the same category; a rule only
+// runs for a relationship type the document has no edges of yet.
+export interface InferenceRule {
+  name: string;
+  type: DeclaredRelationship;
+  confidence: number;  // 0-1, the most any edge from the rule gets
+  limit: number;       // Most edges the rule adds to one document
+  prepare?(documents: Document[]): void;  // Called with the whole corpus before inferring
+  infer(doc: Document, candidates: Document[]): InferredTarget[];
+  // Paths of other documents whose edges from this rule could change
+  // because these documents did
+  affectedBy?(changed: Document[]): string[];
+}
+
+export interface InferenceRuleSettings {
+  enabled?: boolean;
+  confidence?: number;
+  limit?: number;
+}
+
+// Keyed by rule name, e.g. { "setup-prerequisites": { "enabled": false } }
+export type InferenceConfig = Record<string, InferenceRuleSettings>;
+
+export const INFERENCE_SETTING_KEYS: (keyof InferenceRuleSettings)[] = ['enabled', 'confidence', 'limit'];
+
+const SETUP_KEYWORDS = ['setup', 'install', 'configure', 'getting started'];
+
+// Below this cosine similarity, shared vocabulary is mostly coincidence
+const SEE_ALSO_MIN_SIMILARITY = 0.2;
+// Neighbours of a changed document that get their see-also edges redone
+const SEE_ALSO_NEIGHBOURS = 20;
+
+// Documents that read alike are worth a look from each other. The
+// similarity index is corpus-wide, so see-also can cross categories.
+function createSimilarContentRule(): InferenceRule {
+  let index: SimilarityIndex | null = null;
+  return {
+    name: 'similar-content',
+    type: 'seeAlso',
+    confidence: 0.6,
+    limit: 3,
+    prepare(documents) {
+      index = getSharedSimilarityIndex(documents);
+    },
+    infer(doc) {
+      const prepared = index;
+      if (!prepared?.ids.has(doc.relativePath)) return [];
+      return findSimilarDocuments(prepared, doc.relativePath, { minScore: SEE_ALSO_MIN_SIMILARITY })
+        .map(similar => ({ doc: prepared.documents[prepared.ids.get(similar.path)!], score: similar.score }));
+    },
+    // Similarity is symmetric: a document that now ranks a changed one among
+    // its closest is also among the changed one's closest
+    affectedBy(changed) {
+      const prepared = index;
+      if (!prepared) return [];
+      return changed
+        .filter(doc => prepared.ids.has(doc.relativePath))
+        .flatMap(doc => findSimilarDocuments(prepared, doc.relativePath, { minScore: SEE_ALSO_MIN_SIMILARITY, limit: SEE_ALSO_NEIGHBOURS }))
+        .map(similar => similar.path);
+    }
+  };
+}
+
+// Built-in rules are deliberately low confidence: they go by document type
+// and a few words, not by anything the author wrote about the target
+const BUILT_IN_RULES: InferenceRule[] = [
+  {
+    // Docs that talk about doing something "before"/"first" likely need
+    // the category's setup guides
+    name: 'setup-prerequisites',
+    type: 'prerequisites',
+    confidence: 0.3,
+    limit: 2,
+    infer(doc, candidates) {
+      const content = doc.content.toLowerCase();
+      const title = doc.title.toLowerCase();
+      if (!content.includes('before') && !content.includes('first') && !content.includes('prerequisite')) return [];
+      if (SETUP_KEYWORDS.some(keyword => title.includes(keyword))) return [];
+      return candidates.filter(other => other.documentType === 'setup-guide').map(other => ({ doc: other }));
+    }
+  },
+  {
+    // Setup and getting-started docs lead on to the category's guides
+    name: 'setup-follow-ups',
+    type: 'followUps',
+    confidence: 0.3,
+    limit: 3,
+    infer(doc, candidates) {
+      if (doc.documentType !== 'setup-guide' && !doc.title.toLowerCase().includes('getting started')) return [];
+      return candidates
+        .filter(other => other.documentType === 'guide' || other.documentType === 'testing')
+        .map(other => ({ doc: other }));
+    }
+  },
+  createSimilarContentRule()
+];
+
+const rules = new Map<string, InferenceRule>(BUILT_IN_RULES.map(rule => [rule.name, rule]));
+let settings: InferenceConfig = {};
+
+// Add a rule, or replace the one with the same name
+export function registerInferenceRule(rule: InferenceRule): void {
+  if (!(rule.confidence >= 0 && rule.confidence <= 1)) {
+    throw new Error(`Inference rule ${rule.name} has confidence ${rule.confidence}; it must be between 0 and 1`);
+  }
+  rules.set(rule.name, rule);
+}
+
+// Replaces any earlier configuration. Rules not mentioned keep their defaults.
+export function configureInferenceRules(config: InferenceConfig): void {
+  for (const [name, entry] of Object.entries(config)) {
+    if (!rules.has(name)) {
+      throw new Error(`Unknown inference rule "${name}"; known rules: ${Array.from(rules.keys()).join(', ')}`);
+    }
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`Settings for inference rule "${name}" must be an object`);
+    }
+    const unknown = Object.keys(entry).find(key => !(INFERENCE_SETTING_KEYS as string[]).includes(key));
+    if (unknown !== undefined) {
+      throw new Error(`Inference rule "${name}": unknown setting "${unknown}"; expected one of ${INFERENCE_SETTING_KEYS.join(', ')}`);
+    }
+    if (entry.enabled !== undefined && typeof entry.enabled !== 'boolean') {
+      throw new Error(`Inference rule "${name}": enabled must be true or false`);
+    }
+    if (entry.confidence !== undefined && !(typeof entry.confidence === 'number' && entry.confidence >= 0 && entry.confidence <= 1)) {
+      throw new Error(`Inference rule "${name}": confidence must be a number between 0 and 1`);
+    }
+    if (entry.limit !== undefined && !(Number.isInteger(entry.limit) && entry.limit >= 0)) {
+      throw new Error(`Inference rule "${name}": limit must be a whole number of 0 or more`);
+    }
+  }
+  settings = { ...config };
+}
+
+// Read VA_DOCS_INFERENCE_RULES, a JSON InferenceConfig, if it is set
+export function configureInferenceRulesFromEnv(): void {
+  const raw = process.env.VA_DOCS_INFERENCE_RULES;
+  if (!raw) return;
+  let config: InferenceConfig;
+  try {
+    config = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`VA_DOCS_INFERENCE_RULES is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error('VA_DOCS_INFERENCE_RULES must be a JSON object keyed by rule name');
+  }
+  configureInferenceRules(config);
+}
+
+export function getInferenceRuleNames(): string[] {
+  return Array.from(rules.keys());
+}
+
+// Enabled rules with their configured confidence and limit, in registration order
+export function getInferenceRules(): InferenceRule[] {
+  return Array.from(rules.values())
+    .filter(rule => settings[rule.name]?.enabled !== false)
+    .map(rule => ({
+      ...rule,
+      confidence: settings[rule.name]?.confidence ?? rule.confidence,
+      limit: settings[rule.name]?.limit ?? rule.limit
+    }));
+}
+
+// Changes whenever the effective rules do, so cached relationships built
+// under other settings can be recognized
+export function getInferenceSignature(): string {
+  return getInferenceRules()
+    .map(rule => `${rule.name}:${rule.confidence}:${rule.limit}`)
+    .join(',');
+}
+
+// Let rules that need corpus-wide statistics compute them
+export function prepareInferenceRules(documents: Document[]): void {
+  getInferenceRules().forEach(rule => rule.prepare?.(documents));
+}
+
+// Documents whose inferred edges may change because the given ones did.
+// Call prepareInferenceRules with the updated corpus first.
+export function findAffectedByInference(changed: Document[]): Set<string> {
+  return new Set(getInferenceRules().flatMap(rule => rule.affectedBy?.(changed) || []));
+}
+
+// Fill in relationship types the document has no edges for yet. Call
+// prepareInferenceRules first whenever the corpus changes.
+export function inferRelationships(doc: Document, categoryDocuments: Document[]): void {
+  const candidates = categoryDocuments.filter(other => other.relativePath !== doc.relativePath);
+  if (!doc.relationships) doc.relationships = {};
+
+  for (const rule of getInferenceRules()) {
+    if (doc.relationships[rule.type]?.length || rule.limit === 0) continue;
+    const edges: RelationshipEdge[] = rule.infer(doc, candidates)
+      .slice(0, rule.limit)
+      .map(target => ({
+        path: target.doc.relativePath,
+        source: 'inferred',
+        confidence: Math.round(rule.confidence * (target.score ?? 1) * 100) / 100,
+        rule: rule.name
+      }));
+    if (edges.length > 0) {
+      doc.relationships[rule.type] = edges;
+    }
+  }
+}
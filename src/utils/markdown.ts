@@ -0,0 +1,187 @@
+export interface DocumentSection {
+  heading: string;
+  level: number;
+  anchor: string;          // GitHub-compatible slug, unique within the document
+  headingPath: string[];   // Headings from the outermost ancestor down to this one
+  startLine: number;       // 1-based line of the heading in the file
+  endLine: number;         // Last line of the section, subsections included
+  startOffset: number;     // Character offsets into the document content
+  endOffset: number;
+  children: DocumentSection[];
+}
+
+const ATX_HEADING = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+// Reduce inline markdown to the text GitHub slugs are built from
+export function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')  // links and images
+    .replace(/<[^>]+>/g, '')                    // inline HTML
+    .replace(/`([^`]*)`/g, '$1')
+    .trim();
+}
+
+// Same rules as GitHub: lowercase, drop punctuation except "-" and "_",
+// spaces become hyphens, repeats get -1, -2, ...
+export function slugifyHeading(text: string, used: Map<string, number> = new Map()): string {
+  const base = stripInlineMarkdown(text)
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, '')
+    .replace(/ /g, '-');
+
+  const count = used.get(base) || 0;
+  used.set(base, count + 1);
+  return count === 0 ? base : `${base}-${count}`;
+}
+
+export interface ScannedLine {
+  text: string;
+  offset: number;
+  inFence: boolean;
+  fence?: 'open' | 'close';  // On the fence lines themselves
+}
+
+// Lines of content with their character offsets, fenced code marked so
+// callers can skip "# comments" inside shell snippets
+export function scanLines(content: string): ScannedLine[] {
+  const lines: ScannedLine[] = [];
+  let offset = 0;
+  let openFence: string | null = null;
+
+  for (const text of content.split('\n')) {
+    const match = text.match(FENCE);
+    let inFence = openFence !== null;
+    let fence: ScannedLine['fence'];
+
+    if (match) {
+      if (openFence === null) {
+        openFence = match[1];
+        inFence = true;
+        fence = 'open';
+      } else if (match[1][0] === openFence[0] && match[1].length >= openFence.length && text.trim() === match[1]) {
+        openFence = null;
+        inFence = true;
+        fence = 'close';
+      }
+    }
+
+    lines.push({ text, offset, inFence, fence });
+    offset += text.length + 1;
+  }
+
+  return lines;
+}
+
+// firstLine is the file line the content starts on, so line numbers stay
+// correct after frontmatter has been stripped
+export function parseHeadingTree(content: string, firstLine: number = 1): DocumentSection[] {
+  const lines = scanLines(content);
+  const roots: DocumentSection[] = [];
+  const stack: DocumentSection[] = [];
+  const usedSlugs = new Map<string, number>();
+  // A trailing newline doesn't start another line
+  const lastLine = lines.length > 1 && lines[lines.length - 1].text === '' ? lines.length - 1 : lines.length;
+
+  const close = (section: DocumentSection, lineIndex: number) => {
+    // A section runs up to the line before the next heading at its level or above
+    section.endLine = lineIndex + firstLine - 1;
+    section.endOffset = lineIndex < lastLine ? lines[lineIndex].offset - 1 : content.length;
+  };
+
+  lines.forEach((line, index) => {
+    if (line.inFence) return;
+    const match = line.text.match(ATX_HEADING);
+    if (!match) return;
+
+    const level = match[1].length;
+    const heading = stripInlineMarkdown(match[2]);
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      close(stack.pop()!, index);
+    }
+
+    const parent = stack[stack.length - 1];
+    const section: DocumentSection = {
+      heading,
+      level,
+      anchor: slugifyHeading(match[2], usedSlugs),
+      headingPath: [...(parent?.headingPath || []), heading],
+      startLine: index + firstLine,
+      endLine: lastLine + firstLine - 1,
+      startOffset: line.offset,
+      endOffset: content.length,
+      children: []
+    };
+
+    (parent ? parent.children : roots).push(section);
+    stack.push(section);
+  });
+
+  while (stack.length > 0) {
+    close(stack.pop()!, lastLine);
+  }
+
+  return roots;
+}
+
+export function flattenSections(sections: DocumentSection[]): DocumentSection[] {
+  return sections.flatMap(section => [section, ...flattenSections(section.children)]);
+}
+
+// Innermost section containing a character offset
+export function findSectionAt(sections: DocumentSection[], offset: number): DocumentSection | undefined {
+  return flattenSections(sections)
+    .filter(section => section.startOffset <= offset && offset < section.endOffset)
+    .pop();
+}
+
+export function findSectionByAnchor(sections: DocumentSection[], anchor: string): DocumentSection | undefined {
+  const normalized = anchor.replace(/^#/, '').toLowerCase();
+  return flattenSections(sections).find(section => section.anchor === normalized);
+}
+
+// Heading paths match case-insensitively and may skip levels, so
+// ["API", "Authentication"] finds "API > Endpoints > Authentication"
+export function findSectionByHeadingPath(sections: DocumentSection[], headingPath: string[]): DocumentSection | undefined {
+  const wanted = headingPath.map(heading => heading.trim().toLowerCase()).filter(Boolean);
+  if (wanted.length === 0) return undefined;
+
+  return flattenSections(sections).find(section => {
+    const actual = section.headingPath.map(heading => heading.toLowerCase());
+    if (actual[actual.length - 1] !== wanted[wanted.length - 1]) return false;
+
+    let position = 0;
+    for (const heading of actual) {
+      if (heading === wanted[position]) position++;
+      if (position === wanted.length) return true;
+    }
+    return false;
+  });
+}
+
+export function getSectionContent(content: string, section: DocumentSection, includeSubsections = true): string {
+  const end = !includeSubsections && section.children.length > 0
+    ? section.children[0].startOffset - 1
+    : section.endOffset;
+  return content.slice(section.startOffset, end).replace(/\s+$/, '');
+}
+
+export interface SectionOutlineEntry {
+  heading: string;
+  anchor: string;
+  level: number;
+  startLine: number;
+  endLine: number;
+}
+
+// Flat table of contents, small enough to include in responses
+export function createSectionOutline(sections: DocumentSection[]): SectionOutlineEntry[] {
+  return flattenSections(sections).map(({ heading, anchor, level, startLine, endLine }) => ({
+    heading,
+    anchor,
+    level,
+    startLine,
+    endLine
+  }));
+}
@@ -5,15 +5,25 @@ import { existsSync } from 'fs';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-export function findVaDocsRepo(): string {
+// Where the MCP server itself is installed; the config file may live here
+export const PACKAGE_ROOT = resolve(__dirname, '..', '..');
+
+// roots are candidate locations from the config file, already resolved;
+// the first that exists is used
+export function findVaDocsRepo(roots: string[] = []): string {
   // First check environment variable
   if (process.env.VA_DOCS_PATH && existsSync(process.env.VA_DOCS_PATH)) {
     return resolve(process.env.VA_DOCS_PATH);
   }
 
+  for (const root of roots) {
+    if (existsSync(root)) {
+      return root;
+    }
+  }
+
   // Check sibling directory (assumes both repos are in same parent)
-  const mcpRoot = resolve(__dirname, '..', '..');
-  const parentDir = dirname(mcpRoot);
+  const parentDir = dirname(PACKAGE_ROOT);
   const siblingPath = join(parentDir, 'va.gov-team');
   
   if (existsSync(siblingPath)) {
@@ -36,6 +46,6 @@ export function findVaDocsRepo(): string {
   }
 
   throw new Error(
-    'Could not find va.gov-team repository. Please ensure it exists as a sibling directory or set VA_DOCS_PATH environment variable.'
+    'Could not find va.gov-team repository. Please ensure it exists as a sibling directory, list it under "roots" in va-docs-mcp.config.json or set VA_DOCS_PATH environment variable.'
   );
 }
\ No newline at end of file
@@ -0,0 +1,176 @@
+import type { GetPromptResult, Prompt, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { Document, RelatedDocuments, resolveRelatedDocuments, searchDocuments } from './docs.js';
+import { documentUri } from './resources.js';
+import { paginateContent } from './chunks.js';
+import type { SearchIndex } from './search-index.js';
+
+// Documents attached in full; further matches are listed by title and summary
+const EMBEDDED_DOCUMENTS = 3;
+const LISTED_DOCUMENTS = 5;
+
+// Longer documents are cut at a block boundary, so one long README can't
+// crowd the rest of the prompt out of the client's context
+const EMBEDDED_DOCUMENT_TOKENS = 4000;
+
+interface PromptDefinition extends Prompt {
+  arguments: { name: string; description: string; required: boolean }[];
+  context: string;  // Search context passed to searchDocuments for scoring
+  buildQuery: (args: Record<string, string>) => string;
+  buildRequest: (args: Record<string, string>) => string;
+}
+
+const PROMPT_DEFINITIONS: PromptDefinition[] = [
+  {
+    name: 'onboard_to_product',
+    title: 'Onboard me to a product',
+    description: 'Getting-started overview of a VA.gov product, with setup guides and a reading order',
+    arguments: [
+      { name: 'product', description: 'Product name (e.g. "appointments", "check-in")', required: true },
+      { name: 'role', description: 'Your role, e.g. "frontend engineer" or "designer"', required: false }
+    ],
+    context: 'new developer getting started',
+    buildQuery: args => `${args.product} overview setup`,
+    buildRequest: args =>
+      `I'm ${args.role ? `a ${args.role} joining` : 'new to'} the team that works on ${args.product}. ` +
+      'Using the documentation below, explain what the product does, how to get a local environment working, ' +
+      'which documents I should read first and in what order, and who or what to ask when I get stuck.'
+  },
+  {
+    name: 'integrate_with_api',
+    title: 'Integrate with an API',
+    description: 'How to call a VA.gov API: authentication, endpoints, environments and examples',
+    arguments: [
+      { name: 'api', description: 'API or service name (e.g. "appointments api", "lighthouse benefits")', required: true },
+      { name: 'goal', description: 'What you are trying to build with it', required: false }
+    ],
+    context: 'API integration',
+    buildQuery: args => `${args.api} api endpoint`,
+    buildRequest: args =>
+      `I need to integrate with ${args.api}${args.goal ? ` in order to ${args.goal}` : ''}. ` +
+      'Using the documentation below, walk me through authentication, the relevant endpoints, ' +
+      'available environments and any example requests, and point out prerequisites I need first.'
+  },
+  {
+    name: 'release_process',
+    title: 'Release process for a team',
+    description: "A team's deploy and release steps, pipelines and approvals",
+    arguments: [
+      { name: 'team', description: 'Team or product name', required: true }
+    ],
+    context: 'deploy release',
+    buildQuery: args => `${args.team} release deploy`,
+    buildRequest: args =>
+      `What is the release process for ${args.team}? Using the documentation below, list the steps from ` +
+      'merged code to production, the pipelines involved, required approvals and how to roll back.'
+  },
+  {
+    name: 'troubleshoot',
+    title: 'Troubleshoot a problem',
+    description: 'Find known issues and fixes for an error or failing workflow',
+    arguments: [
+      { name: 'problem', description: 'Error message or description of what is going wrong', required: true },
+      { name: 'area', description: 'Product or platform area where it happens', required: false }
+    ],
+    context: 'troubleshooting debug error',
+    buildQuery: args => `${args.area ? `${args.area} ` : ''}${args.problem}`,
+    buildRequest: args =>
+      `I'm running into this problem${args.area ? ` in ${args.area}` : ''}: ${args.problem}\n\n` +
+      'Using the documentation below, suggest likely causes and fixes, starting with known issues, ' +
+      'and tell me which document each suggestion comes from.'
+  }
+];
+
+export function listPrompts(): Prompt[] {
+  return PROMPT_DEFINITIONS.map(({ name, title, description, arguments: args }) => ({
+    name,
+    title,
+    description,
+    arguments: args
+  }));
+}
+
+// Prompt arguments are free text, so strip anything the query parser treats as syntax
+function toPlainQuery(text: string): string {
+  return text.replace(/["():]/g, ' ').replace(/(^|\s)-/g, '$1').replace(/\b(AND|OR|NOT)\b/g, ' ');
+}
+
+function formatRelated(related: RelatedDocuments): string {
+  const lines: string[] = [];
+  const groups: [keyof RelatedDocuments, string][] = [
+    ['prerequisites', 'Read first'],
+    ['followUps', 'Read next'],
+    ['seeAlso', 'See also']
+  ];
+  for (const [key, label] of groups) {
+    const docs = related[key];
+    if (docs && docs.length > 0) {
+      lines.push(`  ${label}: ${docs.map(d => `${d.title} (${d.path})`).join('; ')}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+export function buildPrompt(
+  name: string,
+  args: Record<string, string> = {},
+  index: SearchIndex,
+  documents: Document[]
+): GetPromptResult {
+  const definition = PROMPT_DEFINITIONS.find(prompt => prompt.name === name);
+  if (!definition) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  for (const argument of definition.arguments) {
+    if (argument.required && !args[argument.name]?.trim()) {
+      throw new Error(`Missing required argument for ${name}: ${argument.name}`);
+    }
+  }
+
+  const results = searchDocuments(index, toPlainQuery(definition.buildQuery(args)), {
+    context: definition.context,
+    limit: EMBEDDED_DOCUMENTS + LISTED_DOCUMENTS
+  });
+
+  const messages: PromptMessage[] = [];
+  const overview: string[] = [definition.buildRequest(args)];
+
+  if (results.length === 0) {
+    overview.push('\nNo matching documentation was found; say so rather than guessing.');
+  } else {
+    overview.push('\nRelevant documentation, most relevant first:');
+    results.forEach((doc, position) => {
+      overview.push(`- ${doc.title} (${doc.relativePath})${doc.summary ? `: ${doc.summary}` : ''}`);
+      if (position < EMBEDDED_DOCUMENTS) {
+        const related = formatRelated(resolveRelatedDocuments(doc, documents));
+        if (related) overview.push(related);
+      }
+    });
+    if (results.length > EMBEDDED_DOCUMENTS) {
+      overview.push(`\nThe first ${EMBEDDED_DOCUMENTS} documents are attached; use get_document for the others.`);
+    }
+  }
+
+  messages.push({ role: 'user', content: { type: 'text', text: overview.join('\n') } });
+
+  results.slice(0, EMBEDDED_DOCUMENTS).forEach(doc => {
+    const page = paginateContent(doc.content, EMBEDDED_DOCUMENT_TOKENS);
+    const text = page.nextCursor
+      ? `${page.content}\n\n[Truncated after line ${page.endLine} of about ${page.totalTokens} tokens. ` +
+        `For the rest, call get_document with path "${doc.relativePath}"` +
+        `${doc.source ? `, source "${doc.source}"` : ''} and cursor "${page.nextCursor}".]`
+      : page.content;
+    messages.push({
+      role: 'user',
+      content: {
+        type: 'resource',
+        resource: { uri: documentUri(doc), mimeType: 'text/markdown', text }
+      }
+    });
+  });
+
+  return {
+    description: `${definition.title}: ${Object.values(args).filter(Boolean).join(', ')}`,
+    messages
+  };
+}
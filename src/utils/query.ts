@@ -0,0 +1,534 @@
+import type { Document } from './docs.js';
+import { SearchIndex, getTermDocIds, tokenize } from './search-index.js';
+
+// Query syntax understood by search_docs:
+//   appointments api            bare terms, ranked; at least one must match
+//   "check-in flow"             phrase, must match
+//   a AND b, a OR b, NOT a, -a  boolean operators (AND binds tighter than OR)
+//   (a OR b)                    grouping
+//   type:api-docs path:x/*      field filters, must match
+//   lastModified:>2024-01-01    date/number ranges (also >=, <, <=, a..b)
+
+export type QueryNode =
+  | { type: 'term'; term: string }
+  | { type: 'phrase'; text: string; terms: string[] }
+  | { type: 'field'; field: QueryField; key?: string; value: FieldValue }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+export type FieldValue =
+  | { kind: 'text'; text: string }
+  | { kind: 'range'; from?: string; to?: string; fromInclusive: boolean; toInclusive: boolean };
+
+export type QueryField =
+  | 'title'
+  | 'path'
+  | 'category'
+  | 'documentType'
+  | 'summary'
+  | 'content'
+  | 'section'
+  | 'lastModified'
+  | 'readTime'
+  | 'link'
+  | 'external'
+  | 'frontmatter';
+
+// Accepted spellings for each field, matched case-insensitively
+const FIELD_ALIASES: Record<string, QueryField> = {
+  title: 'title',
+  path: 'path',
+  relativepath: 'path',
+  category: 'category',
+  type: 'documentType',
+  documenttype: 'documentType',
+  summary: 'summary',
+  content: 'content',
+  body: 'content',
+  section: 'section',
+  heading: 'section',
+  keysections: 'section',
+  lastmodified: 'lastModified',
+  modified: 'lastModified',
+  readtime: 'readTime',
+  estimatedreadtime: 'readTime',
+  link: 'link',
+  internallinks: 'link',
+  external: 'external',
+  externalreferences: 'external'
+};
+
+const RANGE_FIELDS: QueryField[] = ['lastModified', 'readTime', 'frontmatter'];
+
+export class QuerySyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(`Invalid search query at position ${position + 1}: ${message}`);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not' | 'minus'; position: number }
+  | { kind: 'phrase' | 'word'; text: string; position: number }
+  | { kind: 'field'; name: string; value: string; quoted: boolean; position: number };
+
+function lex(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (start: number): { text: string; end: number } => {
+    const close = input.indexOf('"', start + 1);
+    if (close === -1) {
+      throw new QuerySyntaxError('unterminated quoted phrase', start);
+    }
+    return { text: input.slice(start + 1, close), end: close + 1 };
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', position: i });
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      const { text, end } = readQuoted(i);
+      tokens.push({ kind: 'phrase', text, position: i });
+      i = end;
+      continue;
+    }
+
+    // A leading minus negates the following clause ("-deprecated", "-(a OR b)")
+    if (char === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ kind: 'minus', position: i });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    while (i < input.length && !/[\s()"]/.test(input[i])) i++;
+    const word = input.slice(start, i);
+
+    const fieldMatch = word.match(/^([A-Za-z_][\w.-]*):(.*)$/);
+    if (fieldMatch && !fieldMatch[2].startsWith('//')) {
+      let value = fieldMatch[2];
+      let quoted = false;
+      if (value === '' && input[i] === '"') {
+        const phrase = readQuoted(i);
+        value = phrase.text;
+        quoted = true;
+        i = phrase.end;
+      }
+      if (value === '') {
+        throw new QuerySyntaxError(`missing value for field "${fieldMatch[1]}"`, start);
+      }
+      tokens.push({ kind: 'field', name: fieldMatch[1], value, quoted, position: start });
+      continue;
+    }
+
+    if (word === 'AND' || word === 'OR' || word === 'NOT') {
+      tokens.push({ kind: word.toLowerCase() as 'and' | 'or' | 'not', position: start });
+    } else {
+      tokens.push({ kind: 'word', text: word, position: start });
+    }
+  }
+
+  return tokens;
+}
+
+interface ClauseResult {
+  node: QueryNode | null;
+  present: boolean;  // A clause was written, even if it was only stop words
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private inputLength: number) {}
+
+  parse(): QueryNode | null {
+    if (this.tokens.length === 0) return null;
+    const { node } = this.parseOr();
+    const next = this.peek();
+    if (next) {
+      throw new QuerySyntaxError(next.kind === 'rparen' ? 'unexpected ")"' : 'unexpected input', next.position);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private parseOr(): ClauseResult {
+    const children: QueryNode[] = [];
+    let clause = this.parseAnd();
+    if (clause.node) children.push(clause.node);
+
+    while (this.peek()?.kind === 'or') {
+      const operator = this.tokens[this.index++];
+      if (!clause.present) {
+        throw new QuerySyntaxError('OR needs a clause on its left', operator.position);
+      }
+      clause = this.parseAnd();
+      if (!clause.present) {
+        throw new QuerySyntaxError('OR needs a clause on its right', operator.position);
+      }
+      if (clause.node) children.push(clause.node);
+    }
+
+    const present = clause.present || children.length > 0;
+    if (children.length === 0) return { node: null, present };
+    return { node: children.length === 1 ? children[0] : { type: 'or', children }, present };
+  }
+
+  // A sequence of clauses. Clauses joined by an explicit AND, and any
+  // phrase, filter or negation, are required; bare terms that are only
+  // juxtaposed are optional, but at least one of them has to match
+  private parseAnd(): ClauseResult {
+    const required: QueryNode[] = [];
+    const optional: QueryNode[] = [];
+    let clauseCount = 0;
+    let pendingAnd: Token | undefined;
+
+    while (true) {
+      const token = this.peek();
+      if (!token || token.kind === 'or' || token.kind === 'rparen') break;
+
+      if (token.kind === 'and') {
+        if (clauseCount === 0) {
+          throw new QuerySyntaxError('AND needs a clause on its left', token.position);
+        }
+        if (pendingAnd) {
+          throw new QuerySyntaxError('repeated AND', token.position);
+        }
+        pendingAnd = token;
+        this.index++;
+        // The clause before an explicit AND becomes required too
+        if (optional.length > 0) required.push(optional.pop()!);
+        continue;
+      }
+
+      const node = this.parseUnary();
+      clauseCount++;
+      if (node) {
+        if (pendingAnd || node.type !== 'term') {
+          required.push(node);
+        } else {
+          optional.push(node);
+        }
+      }
+      pendingAnd = undefined;
+    }
+
+    if (pendingAnd) {
+      throw new QuerySyntaxError('AND needs a clause on its right', pendingAnd.position);
+    }
+
+    if (optional.length > 0) {
+      required.push(optional.length === 1 ? optional[0] : { type: 'or', children: optional });
+    }
+    const present = clauseCount > 0;
+    if (required.length === 0) return { node: null, present };
+    return { node: required.length === 1 ? required[0] : { type: 'and', children: required }, present };
+  }
+
+  private parseUnary(): QueryNode | null {
+    const token = this.peek();
+    if (token && (token.kind === 'not' || token.kind === 'minus')) {
+      this.index++;
+      const next = this.peek();
+      if (!next || next.kind === 'or' || next.kind === 'and' || next.kind === 'rparen') {
+        throw new QuerySyntaxError(`${token.kind === 'not' ? 'NOT' : '"-"'} needs a clause to negate`, token.position);
+      }
+      const child = this.parseUnary();
+      return child ? { type: 'not', child } : null;
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode | null {
+    const token = this.tokens[this.index++];
+    if (!token) {
+      throw new QuerySyntaxError('unexpected end of query', this.inputLength);
+    }
+
+    switch (token.kind) {
+      case 'lparen': {
+        const { node, present } = this.parseOr();
+        const close = this.tokens[this.index++];
+        if (!close || close.kind !== 'rparen') {
+          throw new QuerySyntaxError('missing ")"', token.position);
+        }
+        if (!present) {
+          throw new QuerySyntaxError('empty group', token.position);
+        }
+        return node;
+      }
+      case 'phrase':
+        return createTextNode(token.text, true);
+      case 'word':
+        return createTextNode(token.text, false);
+      case 'field':
+        return createFieldNode(token);
+      default:
+        throw new QuerySyntaxError(`unexpected ${token.kind.toUpperCase()}`, token.position);
+    }
+  }
+}
+
+function createTextNode(text: string, quoted: boolean): QueryNode | null {
+  const terms = tokenize(text);
+  if (terms.length === 0) {
+    // Stop words and bare punctuation carry nothing to search for
+    return null;
+  }
+  // Hyphenated words like "vets-api" tokenize to several terms and are
+  // treated as phrases so they don't match "vets" and "api" far apart
+  if (!quoted && terms.length === 1) {
+    return { type: 'term', term: terms[0] };
+  }
+  return { type: 'phrase', text: normalizePhraseText(text), terms };
+}
+
+function createFieldNode(token: Extract<Token, { kind: 'field' }>): QueryNode {
+  let field: QueryField;
+  let key: string | undefined;
+
+  const lowerName = token.name.toLowerCase();
+  if (lowerName.startsWith('frontmatter.') || lowerName.startsWith('fm.')) {
+    field = 'frontmatter';
+    key = token.name.slice(token.name.indexOf('.') + 1);
+    if (!key) {
+      throw new QuerySyntaxError('missing frontmatter key', token.position);
+    }
+  } else if (FIELD_ALIASES[lowerName]) {
+    field = FIELD_ALIASES[lowerName];
+  } else {
+    throw new QuerySyntaxError(
+      `unknown field "${token.name}" (known fields: ${[...new Set(Object.values(FIELD_ALIASES))].join(', ')}, frontmatter.<key>)`,
+      token.position
+    );
+  }
+
+  const value = token.quoted ? { kind: 'text' as const, text: token.value } : parseFieldValue(token.value, field, token.position);
+  return { type: 'field', field, key, value };
+}
+
+function parseFieldValue(raw: string, field: QueryField, position: number): FieldValue {
+  const comparison = raw.match(/^(>=|<=|>|<)(.+)$/);
+  const between = raw.match(/^(.*)\.\.(.*)$/);
+
+  if (!comparison && !between) {
+    return { kind: 'text', text: raw };
+  }
+  if (!RANGE_FIELDS.includes(field)) {
+    throw new QuerySyntaxError(`field "${field}" does not support ranges`, position);
+  }
+
+  let range: FieldValue;
+  if (comparison) {
+    const [, operator, bound] = comparison;
+    range = operator.startsWith('>')
+      ? { kind: 'range', from: bound, fromInclusive: operator === '>=', toInclusive: false }
+      : { kind: 'range', to: bound, fromInclusive: false, toInclusive: operator === '<=' };
+  } else {
+    const [, from, to] = between!;
+    if (!from && !to) {
+      throw new QuerySyntaxError('range needs at least one bound', position);
+    }
+    range = { kind: 'range', from: from || undefined, to: to || undefined, fromInclusive: true, toInclusive: true };
+  }
+
+  for (const bound of [range.from, range.to]) {
+    if (bound === undefined) continue;
+    if (field === 'lastModified' && Number.isNaN(Date.parse(bound))) {
+      throw new QuerySyntaxError(`"${bound}" is not a valid date`, position);
+    }
+    if (field === 'readTime' && Number.isNaN(Number(bound))) {
+      throw new QuerySyntaxError(`"${bound}" is not a number`, position);
+    }
+  }
+
+  return range;
+}
+
+export function parseQuery(query: string): QueryNode | null {
+  return new Parser(lex(query), query.length).parse();
+}
+
+// Terms that contribute to ranking: everything not under a negation
+export function collectScoringTerms(node: QueryNode | null): string[] {
+  if (!node) return [];
+  switch (node.type) {
+    case 'term': return [node.term];
+    case 'phrase': return node.terms;
+    case 'field': return [];
+    case 'not': return [];
+    case 'and':
+    case 'or':
+      return node.children.flatMap(collectScoringTerms);
+  }
+}
+
+// Ranked terms of a query string, or none when it doesn't parse
+export function getScoringTerms(query: string): string[] {
+  try {
+    return collectScoringTerms(parseQuery(query));
+  } catch (error) {
+    return [];
+  }
+}
+
+// True when every match has to contain at least one ranked term, which lets
+// search start from the posting lists instead of scanning every document
+export function requiresTextMatch(node: QueryNode | null): boolean {
+  if (!node) return false;
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return true;
+    case 'field':
+    case 'not':
+      return false;
+    case 'and':
+      return node.children.some(requiresTextMatch);
+    case 'or':
+      return node.children.every(requiresTextMatch);
+  }
+}
+
+export function matchesQuery(node: QueryNode, index: SearchIndex, docId: number): boolean {
+  const doc = index.documents[docId];
+  switch (node.type) {
+    case 'term':
+      return getTermDocIds(index, node.term).has(docId);
+    case 'phrase':
+      return node.terms.every(term => getTermDocIds(index, term).has(docId)) &&
+        containsPhrase([doc.title, doc.summary || '', doc.content].join('\n'), node.text);
+    case 'field':
+      return matchesField(doc, node.field, node.key, node.value);
+    case 'not':
+      return !matchesQuery(node.child, index, docId);
+    case 'and':
+      return node.children.every(child => matchesQuery(child, index, docId));
+    case 'or':
+      return node.children.some(child => matchesQuery(child, index, docId));
+  }
+}
+
+// Like matchesQuery, except bare terms always match: only phrases, field
+// filters and exclusions apply. Lets semantic search rank documents that
+// don't contain the query's words while still honouring its filters.
+export function matchesQueryFilters(node: QueryNode, index: SearchIndex, docId: number): boolean {
+  switch (node.type) {
+    case 'term':
+      return true;
+    case 'phrase':
+    case 'field':
+    case 'not':
+      return matchesQuery(node, index, docId);
+    case 'and':
+      return node.children.every(child => matchesQueryFilters(child, index, docId));
+    case 'or':
+      return node.children.some(child => matchesQueryFilters(child, index, docId));
+  }
+}
+
+function normalizePhraseText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  return ` ${normalizePhraseText(text)} `.includes(` ${phrase} `);
+}
+
+function matchesField(doc: Document, field: QueryField, key: string | undefined, value: FieldValue): boolean {
+  switch (field) {
+    case 'title': return matchesText(doc.title, value);
+    case 'summary': return matchesText(doc.summary, value);
+    case 'content': return matchesText(doc.content, value);
+    case 'section': return (doc.keySections || []).some(section => matchesText(section, value));
+    case 'category': return matchesExact(doc.category, value);
+    case 'documentType': return matchesExact(doc.documentType, value);
+    case 'path': return value.kind === 'text' && matchesPathPattern(doc.relativePath, value.text);
+    case 'link': return (doc.internalLinks || []).some(link => value.kind === 'text' && matchesPathPattern(link, value.text));
+    case 'external': return (doc.externalReferences || []).some(url => matchesText(url, value));
+    case 'lastModified': return doc.lastModified !== undefined && matchesRange(new Date(doc.lastModified).getTime(), value, Date.parse);
+    case 'readTime': return doc.estimatedReadTime !== undefined && matchesRange(doc.estimatedReadTime, value, Number);
+    case 'frontmatter': return matchesFrontmatter(doc.frontmatter, key!, value);
+  }
+}
+
+function matchesText(text: string | undefined, value: FieldValue): boolean {
+  if (!text || value.kind !== 'text') return false;
+  if (value.text.includes('*')) {
+    return globToRegExp(value.text.toLowerCase()).test(text.toLowerCase());
+  }
+  return text.toLowerCase().includes(value.text.toLowerCase());
+}
+
+function matchesExact(text: string | undefined, value: FieldValue): boolean {
+  if (!text || value.kind !== 'text') return false;
+  return new RegExp(`^${globToRegExp(value.text.toLowerCase()).source}$`).test(text.toLowerCase());
+}
+
+function matchesRange(actual: number, value: FieldValue, parse: (bound: string) => number): boolean {
+  if (value.kind !== 'range') {
+    return actual === parse(value.text);
+  }
+  if (value.from !== undefined) {
+    const from = parse(value.from);
+    if (value.fromInclusive ? actual < from : actual <= from) return false;
+  }
+  if (value.to !== undefined) {
+    const to = parse(value.to);
+    if (value.toInclusive ? actual > to : actual >= to) return false;
+  }
+  return true;
+}
+
+function matchesFrontmatter(frontmatter: Record<string, any>, key: string, value: FieldValue): boolean {
+  const actual = frontmatter[key];
+  if (actual === undefined || actual === null) return false;
+
+  const values = Array.isArray(actual) ? actual : [actual];
+  return values.some(item => {
+    if (value.kind === 'range') {
+      const asDate = item instanceof Date ? item.getTime() : Date.parse(String(item));
+      if (!Number.isNaN(asDate) && typeof item !== 'number') {
+        return matchesRange(asDate, value, Date.parse);
+      }
+      return matchesRange(Number(item), value, Number);
+    }
+    return matchesExact(String(item), value);
+  });
+}
+
+// Path patterns match at segment boundaries anywhere in the path, so
+// "health-care/*" finds "products/health-care/appointments/README.md"
+export function matchesPathPattern(path: string, pattern: string): boolean {
+  const source = globToRegExp(pattern.toLowerCase().replace(/^\/+|\/+$/g, '')).source;
+  return new RegExp(`(^|/)${source}(/|$)`).test(path.toLowerCase());
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split(/(\*\*|\*|\?)/)
+    .map(part => {
+      if (part === '**') return '.*';
+      if (part === '*') return '[^/]*';
+      if (part === '?') return '[^/]';
+      return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(source);
+}
@@ -0,0 +1,261 @@
+import { Document, DocumentRelationships, RelationshipEdge, matchDocumentPath, parseLinkUrl } from './docs.js';
+import { DocumentSection, flattenSections, scanLines, stripInlineMarkdown } from './markdown.js';
+
+export type DeclaredRelationship = 'prerequisites' | 'followUps' | 'seeAlso';
+
+// One entry from a "Prerequisites"/"See also"/"Next steps" list or from
+// frontmatter, before it is matched to a document
+export interface RelationshipDeclaration {
+  type: DeclaredRelationship;
+  text: string;          // List item or frontmatter value as written
+  paths?: string[];      // Candidate targets, normalized like internalLinks, tried in order
+  title?: string;        // Plain text, matched against document titles
+  line?: number;         // File line of a list item
+  source: 'section' | 'frontmatter';
+}
+
+// Headings (or "**Label:**" lines) that introduce a relationship list,
+// compared after lowercasing and dropping punctuation
+const SECTION_LABELS: Record<string, DeclaredRelationship> = {
+  'prerequisites': 'prerequisites',
+  'prerequisite': 'prerequisites',
+  'prereqs': 'prerequisites',
+  'before you begin': 'prerequisites',
+  'before you start': 'prerequisites',
+  'see also': 'seeAlso',
+  'related': 'seeAlso',
+  'related docs': 'seeAlso',
+  'related documents': 'seeAlso',
+  'related documentation': 'seeAlso',
+  'related links': 'seeAlso',
+  'related resources': 'seeAlso',
+  'next steps': 'followUps',
+  'next step': 'followUps',
+  'next': 'followUps',
+  'whats next': 'followUps',
+  'what to read next': 'followUps'
+};
+
+const FRONTMATTER_KEYS: Record<string, DeclaredRelationship> = {
+  prerequisites: 'prerequisites',
+  related: 'seeAlso',
+  next: 'followUps'
+};
+
+// Declared edges are near-certain, but a title or a partial path may have
+// matched a different document than the author meant
+const DECLARED_CONFIDENCE = { frontmatter: 1, section: 0.95 };
+const TITLE_MATCH_FACTOR = 0.85;
+const PARTIAL_PATH_FACTOR = 0.7;
+
+const LIST_ITEM = /^ {0,3}(?:[-*+]|\d+[.)])\s+(.*)$/;
+const INLINE_LINK = /\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+const REFERENCE_LINK = /\[([^\]]*)\](?:\[([^\]]*)\])?/g;
+const REFERENCE_DEFINITION = /^ {0,3}\[([^\]]+)\]:\s*<?([^\s>]+)>?/;
+
+function labelType(text: string): DeclaredRelationship | undefined {
+  const normalized = stripInlineMarkdown(text)
+    .replace(/[*_]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N} ]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return SECTION_LABELS[normalized];
+}
+
+function collectReferenceDefinitions(content: string): Map<string, string> {
+  const definitions = new Map<string, string>();
+  for (const line of scanLines(content)) {
+    if (line.inFence) continue;
+    const match = line.text.match(REFERENCE_DEFINITION);
+    if (match) definitions.set(match[1].trim().toLowerCase(), match[2]);
+  }
+  return definitions;
+}
+
+// Turn one list item or frontmatter value into a declaration. The first
+// link to a markdown document wins; items that only link elsewhere (an
+// external site, an image) aren't document relationships.
+function parseTarget(
+  text: string,
+  documentPath: string,
+  references: Map<string, string>
+): Pick<RelationshipDeclaration, 'paths' | 'title'> | null {
+  const urls: string[] = [];
+  for (const match of text.matchAll(INLINE_LINK)) urls.push(match[1]);
+  for (const match of text.replace(INLINE_LINK, '').matchAll(REFERENCE_LINK)) {
+    const url = references.get((match[2] || match[1]).trim().toLowerCase());
+    if (url) urls.push(url);
+  }
+
+  if (urls.length > 0) {
+    for (const url of urls) {
+      const target = parseLinkUrl(url, documentPath);
+      if (target) return { paths: [target.path] };
+    }
+    return null;
+  }
+
+  const plain = stripInlineMarkdown(text).replace(/[*_]/g, '').replace(/[.:;]$/, '').trim();
+  if (!plain) return null;
+  // Bare paths ("platform/setup.md") are tried next to the document, then
+  // from the repository root; anything else is a title
+  if (/\.md(#.*)?$/i.test(plain) && !/\s/.test(plain)) {
+    const paths = [parseLinkUrl(plain, documentPath), parseLinkUrl(`/${plain}`, documentPath)]
+      .filter((target): target is { path: string } => target !== null)
+      .map(target => target.path);
+    return paths.length > 0 ? { paths: Array.from(new Set(paths)) } : null;
+  }
+  return { title: plain };
+}
+
+// List items directly under a relationship heading (not its subsections),
+// or in the list right after a "**Prerequisites:**" style label line
+function extractSectionDeclarations(
+  content: string,
+  documentPath: string,
+  sections: DocumentSection[],
+  firstLine: number
+): RelationshipDeclaration[] {
+  const declarations: RelationshipDeclaration[] = [];
+  const references = collectReferenceDefinitions(content);
+  const lines = scanLines(content);
+  const byLine = new Map(flattenSections(sections).map(section => [section.startLine - firstLine, section]));
+
+  // A heading's list runs to the next heading; a label line's list ends at
+  // the first line of prose after it
+  let current: DeclaredRelationship | undefined;
+  let fromLabel = false;
+
+  lines.forEach((line, index) => {
+    const section = byLine.get(index);
+    if (section) {
+      current = labelType(section.heading);
+      fromLabel = false;
+      return;
+    }
+
+    const item = line.inFence ? null : line.text.match(LIST_ITEM);
+    if (item) {
+      const target = current && parseTarget(item[1], documentPath, references);
+      if (current && target) {
+        declarations.push({ type: current, text: item[1].trim(), ...target, line: index + firstLine, source: 'section' });
+      }
+      return;
+    }
+
+    // Blank lines and indented continuations don't end a list
+    if (line.text.trim() === '' || /^\s{2,}\S/.test(line.text)) return;
+
+    const label = line.inFence ? undefined : labelType(line.text);
+    if (label) {
+      current = label;
+      fromLabel = true;
+    } else if (fromLabel) {
+      current = undefined;
+      fromLabel = false;
+    }
+  });
+
+  return declarations;
+}
+
+// Frontmatter schema: prerequisites, related and next, each a path or
+// title, a list of them, or a list of { path } / { title } objects
+function extractFrontmatterDeclarations(frontmatter: Record<string, any>, documentPath: string): RelationshipDeclaration[] {
+  const declarations: RelationshipDeclaration[] = [];
+
+  for (const [key, type] of Object.entries(FRONTMATTER_KEYS)) {
+    const value = frontmatter[key];
+    if (value === undefined || value === null) continue;
+
+    for (const entry of Array.isArray(value) ? value : [value]) {
+      const text = typeof entry === 'string' ? entry : JSON.stringify(entry);
+      let target: Pick<RelationshipDeclaration, 'paths' | 'title'> | null = null;
+
+      if (typeof entry === 'string') {
+        target = parseTarget(entry, documentPath, new Map());
+      } else if (entry && typeof entry === 'object' && typeof entry.path === 'string') {
+        target = parseTarget(entry.path, documentPath, new Map());
+      } else if (entry && typeof entry === 'object' && typeof entry.title === 'string') {
+        target = { title: entry.title };
+      }
+
+      // Keep unusable entries so they're reported as unresolved
+      declarations.push({ type, text, ...(target || {}), source: 'frontmatter' });
+    }
+  }
+
+  return declarations;
+}
+
+export function extractRelationshipDeclarations(
+  content: string,
+  frontmatter: Record<string, any>,
+  documentPath: string,
+  sections: DocumentSection[],
+  firstLine: number = 1
+): RelationshipDeclaration[] {
+  return [
+    ...extractFrontmatterDeclarations(frontmatter, documentPath),
+    ...extractSectionDeclarations(content, documentPath, sections, firstLine)
+  ];
+}
+
+export function createTitleMap(documents: Document[]): Map<string, Document> {
+  const titles = new Map<string, Document>();
+  documents.forEach(doc => {
+    const key = doc.title.trim().toLowerCase();
+    // Keep the first document with a title; later duplicates are ambiguous
+    if (!titles.has(key)) titles.set(key, doc);
+  });
+  return titles;
+}
+
+// Resolve a document's declarations to edges. Only relationship types the
+// document declares are replaced, so inferred ones for other types
+// survive; declarations that match nothing go to unresolvedRelationships.
+export function applyDeclaredRelationships(
+  doc: Document,
+  docMap: Map<string, Document>,
+  titleMap: Map<string, Document>
+): void {
+  const resolved: Partial<Record<DeclaredRelationship, RelationshipEdge[]>> = {};
+  const unresolved: RelationshipDeclaration[] = [];
+
+  for (const declaration of doc.declaredRelationships || []) {
+    let target: Document | undefined;
+    let confidence = DECLARED_CONFIDENCE[declaration.source];
+    if (declaration.paths) {
+      // An exact match on any candidate beats a partial match on an earlier one
+      const matches = declaration.paths.map(path => matchDocumentPath(path, docMap));
+      const match = matches.find(candidate => candidate && !candidate.fuzzy) || matches.find(Boolean);
+      target = match?.doc;
+      if (match?.fuzzy) confidence *= PARTIAL_PATH_FACTOR;
+    } else if (declaration.title) {
+      target = titleMap.get(declaration.title.toLowerCase());
+      confidence *= TITLE_MATCH_FACTOR;
+    }
+
+    if (!target) {
+      unresolved.push(declaration);
+      continue;
+    }
+    const path = target.relativePath;
+    const edges = resolved[declaration.type] || (resolved[declaration.type] = []);
+    if (path !== doc.relativePath && !edges.some(edge => edge.path === path)) {
+      edges.push({
+        path,
+        source: declaration.source === 'section' ? 'explicit-section' : 'frontmatter',
+        confidence: Math.round(confidence * 100) / 100
+      });
+    }
+  }
+
+  const relationships: DocumentRelationships = doc.relationships || {};
+  for (const [type, edges] of Object.entries(resolved) as [DeclaredRelationship, RelationshipEdge[]][]) {
+    if (edges.length > 0) relationships[type] = edges;
+  }
+  doc.relationships = relationships;
+  doc.unresolvedRelationships = unresolved.length > 0 ? unresolved : undefined;
+}
@@ -0,0 +1,187 @@
+import type { Document, DocumentChanges } from './docs.js';
+import { findSectionByAnchor, getSectionContent } from './markdown.js';
+import { getCategory } from './sources.js';
+
+// Documents:   va-docs://products/health-care/appointments/README.md
+// Sections:    va-docs://products/health-care/appointments/README.md#api
+// Categories:  va-docs-category://products
+// Directories: va-docs-section://products/health-care (every doc under a path)
+export const DOCUMENT_URI_PREFIX = 'va-docs://';
+export const CATEGORY_URI_PREFIX = 'va-docs-category://';
+export const SECTION_URI_PREFIX = 'va-docs-section://';
+
+const RESOURCE_PAGE_SIZE = 100;
+
+export type ResourceTarget =
+  | { kind: 'document'; path: string; anchor?: string }
+  | { kind: 'category'; category: string }
+  | { kind: 'section'; prefix: string };
+
+export interface DocumentResource {
+  uri: string;
+  name: string;
+  title: string;
+  description?: string;
+  mimeType: string;
+}
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: `${DOCUMENT_URI_PREFIX}{+path}`,
+    name: 'document',
+    title: 'VA.gov document',
+    description: 'A single documentation file by its path in the docs repository; append #anchor for one section',
+    mimeType: 'text/markdown'
+  },
+  {
+    uriTemplate: `${CATEGORY_URI_PREFIX}{category}`,
+    name: 'category',
+    title: 'VA.gov documentation category',
+    description: 'Index of every document in a top-level category (e.g. "products", "platform")',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: `${SECTION_URI_PREFIX}{+path}`,
+    name: 'section',
+    title: 'VA.gov documentation section',
+    description: 'Index of every document under a directory (e.g. "products/health-care")',
+    mimeType: 'application/json'
+  }
+];
+
+function encodePath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
+
+function decodePath(path: string): string {
+  return path.split('/').map(segment => decodeURIComponent(segment)).join('/');
+}
+
+export function documentUri(doc: Document): string {
+  return DOCUMENT_URI_PREFIX + encodePath(doc.relativePath);
+}
+
+export function parseResourceUri(uri: string): ResourceTarget | null {
+  try {
+    if (uri.startsWith(DOCUMENT_URI_PREFIX)) {
+      const [path, anchor] = uri.slice(DOCUMENT_URI_PREFIX.length).split('#', 2);
+      return { kind: 'document', path: decodePath(path), anchor: anchor ? decodeURIComponent(anchor) : undefined };
+    }
+    if (uri.startsWith(CATEGORY_URI_PREFIX)) {
+      return { kind: 'category', category: decodeURIComponent(uri.slice(CATEGORY_URI_PREFIX.length)) };
+    }
+    if (uri.startsWith(SECTION_URI_PREFIX)) {
+      return { kind: 'section', prefix: decodePath(uri.slice(SECTION_URI_PREFIX.length)).replace(/\/+$/, '') };
+    }
+  } catch (error) {
+    // Malformed percent-encoding
+  }
+  return null;
+}
+
+export function createDocumentResource(doc: Document): DocumentResource {
+  return {
+    uri: documentUri(doc),
+    name: doc.relativePath,
+    title: doc.title,
+    description: doc.summary,
+    mimeType: 'text/markdown'
+  };
+}
+
+// Cursors are opaque to clients; internally they are the next offset
+function encodeCursor(offset: number): string {
+  return Buffer.from(String(offset)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number {
+  const offset = Number(Buffer.from(cursor, 'base64url').toString());
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+  return offset;
+}
+
+export function listDocumentResources(
+  documents: Document[],
+  cursor?: string
+): { resources: DocumentResource[]; nextCursor?: string } {
+  const sorted = [...documents].sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  const offset = cursor ? decodeCursor(cursor) : 0;
+  const page = sorted.slice(offset, offset + RESOURCE_PAGE_SIZE);
+  const nextOffset = offset + page.length;
+
+  return {
+    resources: page.map(createDocumentResource),
+    nextCursor: nextOffset < sorted.length ? encodeCursor(nextOffset) : undefined
+  };
+}
+
+export function isInSection(doc: Document, prefix: string): boolean {
+  return prefix === '' || doc.relativePath.startsWith(prefix + '/');
+}
+
+export function readResource(
+  documents: Document[],
+  uri: string
+): { contents: { uri: string; mimeType: string; text: string }[] } {
+  const target = parseResourceUri(uri);
+  if (!target) {
+    throw new Error(`Unsupported resource URI: ${uri}`);
+  }
+
+  if (target.kind === 'document') {
+    const doc = documents.find(d => d.relativePath === target.path);
+    if (!doc) {
+      throw new Error(`Resource not found: ${uri}`);
+    }
+    if (target.anchor) {
+      const section = findSectionByAnchor(doc.sections || [], target.anchor);
+      if (!section) {
+        throw new Error(`Section not found: ${uri}`);
+      }
+      return { contents: [{ uri, mimeType: 'text/markdown', text: getSectionContent(doc.content, section) }] };
+    }
+    return { contents: [{ uri, mimeType: 'text/markdown', text: doc.content }] };
+  }
+
+  const matching = target.kind === 'category'
+    ? documents.filter(doc => doc.category === target.category)
+    : documents.filter(doc => isInSection(doc, target.prefix));
+
+  if (matching.length === 0) {
+    throw new Error(`Resource not found: ${uri}`);
+  }
+
+  const index = matching
+    .sort((a, b) => a.relativePath.localeCompare(b.relativePath))
+    .map(createDocumentResource);
+
+  return {
+    contents: [{
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify({ count: index.length, documents: index }, null, 2)
+    }]
+  };
+}
+
+// Subscribed URIs whose content is affected by a batch of document changes
+export function findAffectedSubscriptions(subscriptions: Set<string>, changes: DocumentChanges): string[] {
+  const changedPaths = [...changes.added, ...changes.modified, ...changes.removed];
+
+  return Array.from(subscriptions).filter(uri => {
+    const target = parseResourceUri(uri);
+    if (!target) return false;
+
+    switch (target.kind) {
+      case 'document':
+        return changedPaths.includes(target.path);
+      case 'category':
+        // Category and section indexes list titles and summaries, so edits count too
+        return changedPaths.some(path => getCategory(path) === target.category);
+      case 'section':
+        return changedPaths.some(path => target.prefix === '' || path.startsWith(target.prefix + '/'));
+    }
+  });
+}
@@ -0,0 +1,209 @@
+import type { Document } from './docs.js';
+
+// A bonus for documents that match any of the keywords. Title and content
+// keywords are case-insensitive substrings; documentType keywords are
+// whole document types.
+export interface BoostRule {
+  field: 'title' | 'content' | 'documentType';
+  keywords: string[];
+  boost: number;
+}
+
+// Applies when the search context contains any of its match phrases, e.g.
+// "new developer" selects the onboarding profile
+export interface ContextProfile {
+  match: string[];
+  boosts: BoostRule[];
+}
+
+// Bonuses on top of the text score that apply to every search
+export interface RelevanceWeights {
+  exactTitleBoost: number;
+  documentTypeBoosts: Record<string, number>;
+  recencyBoosts: { maxDays: number; boost: number }[];  // First bucket the document's age falls in
+}
+
+// The first matching rule names a document's type when its frontmatter
+// has no type. Path and content keywords are lowercase substrings; a rule
+// matches on any path keyword, any content keyword, or every allContent one.
+export interface DocumentTypeRule {
+  type: string;
+  path?: string[];
+  content?: string[];
+  allContent?: string[];
+}
+
+export const BOOST_FIELDS: BoostRule['field'][] = ['title', 'content', 'documentType'];
+
+const DEFAULT_DOCUMENT_TYPE = 'documentation';
+
+export const DEFAULT_CONTEXT_PROFILES: Record<string, ContextProfile> = {
+  onboarding: {
+    match: ['new developer', 'getting started'],
+    boosts: [
+      { field: 'documentType', keywords: ['setup-guide'], boost: 30 },
+      { field: 'documentType', keywords: ['guide'], boost: 20 },
+      { field: 'title', keywords: ['setup', 'getting started'], boost: 25 },
+      { field: 'title', keywords: ['introduction', 'overview'], boost: 15 }
+    ]
+  },
+  api: {
+    match: ['api', 'integration'],
+    boosts: [
+      { field: 'documentType', keywords: ['api-docs'], boost: 30 },
+      { field: 'title', keywords: ['api', 'endpoint'], boost: 25 },
+      { field: 'title', keywords: ['integration', 'contract'], boost: 20 }
+    ]
+  },
+  troubleshooting: {
+    match: ['troubleshoot', 'debug', 'error'],
+    boosts: [
+      { field: 'documentType', keywords: ['testing'], boost: 20 },
+      { field: 'title', keywords: ['troubleshoot', 'error'], boost: 25 },
+      { field: 'title', keywords: ['debug', 'fix'], boost: 20 },
+      { field: 'content', keywords: ['common issues', 'known issues'], boost: 15 }
+    ]
+  },
+  release: {
+    match: ['deploy', 'release'],
+    boosts: [
+      { field: 'title', keywords: ['deploy', 'release'], boost: 25 },
+      { field: 'title', keywords: ['ci/cd', 'pipeline'], boost: 20 }
+    ]
+  }
+};
+
+export const DEFAULT_RELEVANCE_WEIGHTS: RelevanceWeights = {
+  exactTitleBoost: 50,
+  // Prefer guides and setup documents for general queries
+  documentTypeBoosts: { 'guide': 10, 'setup-guide': 10 },
+  // Newer docs get a slight preference
+  recencyBoosts: [
+    { maxDays: 30, boost: 20 },
+    { maxDays: 90, boost: 10 },
+    { maxDays: 180, boost: 5 }
+  ]
+};
+
+// File name patterns are checked before content patterns
+export const DEFAULT_DOCUMENT_TYPE_RULES: DocumentTypeRule[] = [
+  { type: 'guide', path: ['readme'] },
+  { type: 'rfc', path: ['rfc'] },
+  { type: 'api-docs', path: ['api'] },
+  { type: 'setup-guide', path: ['setup', 'install'] },
+  { type: 'testing', path: ['test'] },
+  { type: 'api-docs', content: ['## api', 'endpoint'] },
+  { type: 'setup-guide', content: ['## installation', '## setup'] },
+  { type: 'rfc', allContent: ['## background', '## proposal'] },
+  { type: 'guide', content: ['## getting started', '## prerequisites'] },
+  { type: 'testing', content: ['## test', 'testing'] }
+];
+
+let contextProfiles: Record<string, ContextProfile> = DEFAULT_CONTEXT_PROFILES;
+let relevanceWeights: RelevanceWeights = DEFAULT_RELEVANCE_WEIGHTS;
+let documentTypeRules: DocumentTypeRule[] = DEFAULT_DOCUMENT_TYPE_RULES;
+
+// Profiles with a built-in name replace it; others are added
+export function configureContextProfiles(profiles: Record<string, ContextProfile>): void {
+  contextProfiles = { ...DEFAULT_CONTEXT_PROFILES, ...profiles };
+}
+
+// Weights left out keep their defaults
+export function configureRelevanceWeights(weights: Partial<RelevanceWeights>): void {
+  relevanceWeights = { ...DEFAULT_RELEVANCE_WEIGHTS, ...weights };
+  relevanceWeights.recencyBoosts = [...relevanceWeights.recencyBoosts].sort((a, b) => a.maxDays - b.maxDays);
+}
+
+// Configured rules are checked before the built-in ones
+export function configureDocumentTypeRules(rules: DocumentTypeRule[]): void {
+  const lower = (keywords?: string[]) => keywords?.map(keyword => keyword.toLowerCase());
+  documentTypeRules = [
+    ...rules.map(rule => ({ type: rule.type, path: lower(rule.path), content: lower(rule.content), allContent: lower(rule.allContent) })),
+    ...DEFAULT_DOCUMENT_TYPE_RULES
+  ];
+}
+
+// Changes whenever detection does, so documents parsed under other rules
+// can be recognized in the cache
+export function getDocumentTypeSignature(): string {
+  return JSON.stringify(documentTypeRules);
+}
+
+export function detectDocumentType(content: string, filePath: string, frontmatter: Record<string, any>): string {
+  // Check frontmatter first
+  if (frontmatter.type) return frontmatter.type;
+
+  const pathLower = filePath.toLowerCase();
+  const contentLower = content.toLowerCase();
+  const rule = documentTypeRules.find(candidate =>
+    candidate.path?.some(keyword => pathLower.includes(keyword)) ||
+    candidate.content?.some(keyword => contentLower.includes(keyword)) ||
+    (candidate.allContent?.length && candidate.allContent.every(keyword => contentLower.includes(keyword)))
+  );
+  return rule ? rule.type : DEFAULT_DOCUMENT_TYPE;
+}
+
+function matchesBoostRule(doc: Document, rule: BoostRule): boolean {
+  switch (rule.field) {
+    case 'documentType':
+      return doc.documentType !== undefined && rule.keywords.includes(doc.documentType);
+    case 'title':
+      return rule.keywords.some(keyword => doc.title.toLowerCase().includes(keyword.toLowerCase()));
+    case 'content':
+      return rule.keywords.some(keyword => doc.content.toLowerCase().includes(keyword.toLowerCase()));
+  }
+}
+
+export interface AppliedBoost extends BoostRule {
+  profile: string;
+}
+
+// The boost rules a search context applies to a document
+export function getContextBoosts(doc: Document, context: string): AppliedBoost[] {
+  const contextLower = context.toLowerCase();
+  const applied: AppliedBoost[] = [];
+  for (const [name, profile] of Object.entries(contextProfiles)) {
+    if (!profile.match.some(phrase => contextLower.includes(phrase.toLowerCase()))) continue;
+    for (const rule of profile.boosts) {
+      if (matchesBoostRule(doc, rule)) applied.push({ profile: name, ...rule });
+    }
+  }
+  return applied;
+}
+
+// Every profile the context selects adds the boosts its document matches
+export function getContextualRelevance(doc: Document, context: string): number {
+  return getContextBoosts(doc, context).reduce((score, rule) => score + rule.boost, 0);
+}
+
+export interface RelevanceBonuses {
+  exactTitle: number;
+  documentType: number;
+  recency: number;
+}
+
+export function getRelevanceBonuses(doc: Document, query: string): RelevanceBonuses {
+  const bonuses: RelevanceBonuses = { exactTitle: 0, documentType: 0, recency: 0 };
+
+  if (doc.title.toLowerCase() === query) {
+    bonuses.exactTitle = relevanceWeights.exactTitleBoost;
+  }
+
+  if (doc.documentType) {
+    bonuses.documentType = relevanceWeights.documentTypeBoosts[doc.documentType] || 0;
+  }
+
+  if (doc.lastModified) {
+    const daysSinceModified = (Date.now() - new Date(doc.lastModified).getTime()) / (1000 * 60 * 60 * 24);
+    const bucket = relevanceWeights.recencyBoosts.find(entry => daysSinceModified < entry.maxDays);
+    if (bucket) bonuses.recency = bucket.boost;
+  }
+
+  return bonuses;
+}
+
+// Exact title, document type and recency bonuses
+export function getRelevanceBonus(doc: Document, query: string): number {
+  const { exactTitle, documentType, recency } = getRelevanceBonuses(doc, query);
+  return exactTitle + documentType + recency;
+}
@@ -0,0 +1,187 @@
+import type { Document } from './docs.js';
+
+// Fields are scored separately so a title hit counts for more than a body hit
+export const SEARCH_FIELDS = ['title', 'headings', 'summary', 'body'] as const;
+export type SearchField = typeof SEARCH_FIELDS[number];
+
+export const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  headings: 2,
+  summary: 1.5,
+  body: 1
+};
+
+// Standard BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'for', 'from', 'how',
+  'i', 'in', 'is', 'it', 'of', 'on', 'or', 'the', 'to', 'what', 'with'
+]);
+
+interface Posting {
+  docId: number;
+  frequencies: number[];  // Term frequency per field, in SEARCH_FIELDS order
+}
+
+export interface SearchIndex {
+  documents: Document[];
+  postings: Map<string, Posting[]>;
+  fieldLengths: number[][];       // Token count per document per field
+  averageFieldLengths: number[];  // Average token count per field
+}
+
+export function isStopWord(token: string): boolean {
+  return STOP_WORDS.has(token);
+}
+
+// Lowercase words as they appear in the text, before stop words are
+// dropped and plurals stemmed
+export function splitWords(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) || [];
+}
+
+export function tokenize(text: string): string[] {
+  return splitWords(text)
+    .filter(token => !STOP_WORDS.has(token))
+    .map(normalizeTerm);
+}
+
+export function normalizeTerm(token: string): string {
+  // Light plural stemming so "appointments" and "appointment" share a term
+  if (token.length > 4 && token.endsWith('ies')) return token.slice(0, -3) + 'y';
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
+
+function getFieldText(doc: Document, field: SearchField): string {
+  switch (field) {
+    case 'title': return doc.title;
+    case 'headings': return (doc.keySections || []).join('\n');
+    case 'summary': return doc.summary || '';
+    case 'body': return doc.content;
+  }
+}
+
+export function buildSearchIndex(documents: Document[]): SearchIndex {
+  const postings = new Map<string, Posting[]>();
+  const fieldLengths: number[][] = [];
+  const totals = SEARCH_FIELDS.map(() => 0);
+
+  documents.forEach((doc, docId) => {
+    const lengths: number[] = [];
+    const frequencies = new Map<string, number[]>();
+
+    SEARCH_FIELDS.forEach((field, fieldIndex) => {
+      const tokens = tokenize(getFieldText(doc, field));
+      lengths.push(tokens.length);
+      totals[fieldIndex] += tokens.length;
+
+      for (const token of tokens) {
+        let counts = frequencies.get(token);
+        if (!counts) {
+          counts = SEARCH_FIELDS.map(() => 0);
+          frequencies.set(token, counts);
+        }
+        counts[fieldIndex]++;
+      }
+    });
+
+    fieldLengths.push(lengths);
+    for (const [term, counts] of frequencies) {
+      let list = postings.get(term);
+      if (!list) {
+        list = [];
+        postings.set(term, list);
+      }
+      list.push({ docId, frequencies: counts });
+    }
+  });
+
+  const averageFieldLengths = totals.map(total => documents.length > 0 ? total / documents.length : 0);
+
+  return { documents, postings, fieldLengths, averageFieldLengths };
+}
+
+function inverseDocumentFrequency(index: SearchIndex, documentFrequency: number): number {
+  const total = index.documents.length;
+  return Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+}
+
+// Length-normalised, weighted frequency of a term in each field
+function weighFields(index: SearchIndex, posting: Posting): number[] {
+  return SEARCH_FIELDS.map((field, fieldIndex) => {
+    const frequency = posting.frequencies[fieldIndex];
+    if (frequency === 0) return 0;
+    const average = index.averageFieldLengths[fieldIndex] || 1;
+    const normalisation = 1 - BM25_B + BM25_B * (index.fieldLengths[posting.docId][fieldIndex] / average);
+    return FIELD_WEIGHTS[field] * frequency / normalisation;
+  });
+}
+
+function saturate(idf: number, weightedFrequency: number): number {
+  return idf * weightedFrequency / (BM25_K1 + weightedFrequency);
+}
+
+// BM25F: per-field frequencies are length-normalised and weighted before a
+// single saturation step, so repeating a term across fields can't run away
+export function scoreTerms(index: SearchIndex, terms: string[]): Map<number, number> {
+  const scores = new Map<number, number>();
+
+  for (const term of new Set(terms)) {
+    const list = index.postings.get(term);
+    if (!list) continue;
+
+    const idf = inverseDocumentFrequency(index, list.length);
+    for (const posting of list) {
+      const weightedFrequency = weighFields(index, posting).reduce((sum, weight) => sum + weight, 0);
+      scores.set(posting.docId, (scores.get(posting.docId) || 0) + saturate(idf, weightedFrequency));
+    }
+  }
+
+  return scores;
+}
+
+export interface TermScore {
+  term: string;
+  score: number;
+  fields: Record<SearchField, number>;  // The score split by each field's share of the weighted frequency
+}
+
+// What each term adds to one document's scoreTerms score, and where it was found
+export function explainTermScores(index: SearchIndex, docId: number, terms: string[]): TermScore[] {
+  const explained: TermScore[] = [];
+  for (const term of new Set(terms)) {
+    const list = index.postings.get(term);
+    const posting = list?.find(entry => entry.docId === docId);
+    const fields = Object.fromEntries(SEARCH_FIELDS.map(field => [field, 0])) as Record<SearchField, number>;
+    if (!list || !posting) {
+      explained.push({ term, score: 0, fields });
+      continue;
+    }
+
+    const weights = weighFields(index, posting);
+    const weightedFrequency = weights.reduce((sum, weight) => sum + weight, 0);
+    const score = saturate(inverseDocumentFrequency(index, list.length), weightedFrequency);
+    SEARCH_FIELDS.forEach((field, fieldIndex) => {
+      fields[field] = score * weights[fieldIndex] / weightedFrequency;
+    });
+    explained.push({ term, score, fields });
+  }
+  return explained;
+}
+
+const termDocIdCache = new WeakMap<Posting[], Set<number>>();
+
+export function getTermDocIds(index: SearchIndex, term: string): Set<number> {
+  const list = index.postings.get(term);
+  if (!list) return new Set();
+
+  let docIds = termDocIdCache.get(list);
+  if (!docIds) {
+    docIds = new Set(list.map(posting => posting.docId));
+    termDocIdCache.set(list, docIds);
+  }
+  return docIds;
+}
@@ -0,0 +1,208 @@
+import { Document, SearchOptions, matchesSearchOptions, searchDocuments } from './docs.js';
+import { chunkMarkdown } from './chunks.js';
+import { findSectionAt } from './markdown.js';
+import { collectScoringTerms, matchesQueryFilters, parseQuery } from './query.js';
+import { SearchIndex } from './search-index.js';
+import { EmbeddingBackend, EmbeddingCache, hashText } from './embeddings.js';
+
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+export const SEARCH_MODES: SearchMode[] = ['keyword', 'semantic', 'hybrid'];
+
+// Small enough that one chunk is about one thing
+const CHUNK_TOKENS = 256;
+
+// Standard reciprocal rank fusion constant; larger values flatten the
+// difference between the top ranks
+const RRF_K = 60;
+
+// How deep into each ranking fusion looks
+const FUSION_DEPTH = 100;
+
+export interface EmbeddedChunk {
+  docId: number;
+  heading?: string;     // Innermost heading the chunk starts under
+  startLine: number;    // File line the chunk starts on
+  hash: string;         // Hash of the embedded text
+  vector: Float32Array;
+}
+
+export interface VectorIndex {
+  backend: string;
+  documents: Document[];
+  chunks: EmbeddedChunk[];
+  cache: EmbeddingCache;  // Every vector in the index, by text hash
+  embedded: number;       // Chunks embedded for this build rather than found in the cache
+}
+
+export interface SemanticMatch {
+  heading?: string;
+  startLine: number;
+  score: number;        // Cosine similarity of the best chunk to the query
+}
+
+export interface RankedDocument {
+  doc: Document;
+  keywordRank?: number;   // 1-based
+  semanticRank?: number;
+  semantic?: SemanticMatch;
+}
+
+interface ChunkText {
+  docId: number;
+  heading?: string;
+  startLine: number;
+  text: string;
+}
+
+// Each chunk is embedded with its document title and heading path, so a
+// chunk that only says "Click Reschedule" still knows what it's about
+function chunkDocument(doc: Document, docId: number): ChunkText[] {
+  const firstLine = doc.bodyStartLine || 1;
+
+  return chunkMarkdown(doc.content, CHUNK_TOKENS).map(chunk => {
+    const section = findSectionAt(doc.sections || [], chunk.startOffset);
+    const body = doc.content.slice(chunk.startOffset, chunk.endOffset);
+    const context = section ? [doc.title, ...section.headingPath.filter(heading => heading !== doc.title)] : [doc.title];
+    return {
+      docId,
+      heading: section?.heading,
+      startLine: firstLine + (doc.content.slice(0, chunk.startOffset).match(/\n/g) || []).length,
+      text: `${context.join(' > ')}\n\n${body}`
+    };
+  });
+}
+
+// Embed every chunk, reusing vectors from the cache for text that was
+// embedded before. New vectors are added to the cache.
+export async function buildVectorIndex(
+  documents: Document[],
+  backend: EmbeddingBackend,
+  cache: EmbeddingCache = new Map()
+): Promise<VectorIndex> {
+  const texts = documents.flatMap((doc, docId) => chunkDocument(doc, docId));
+  const hashes = texts.map(chunk => hashText(chunk.text));
+
+  const missing = Array.from(new Set(hashes.filter(hash => !cache.has(hash))));
+  if (missing.length > 0) {
+    const byHash = new Map(texts.map((chunk, i) => [hashes[i], chunk.text]));
+    const vectors = await backend.embed(missing.map(hash => byHash.get(hash)!));
+    missing.forEach((hash, i) => cache.set(hash, vectors[i]));
+  }
+
+  // Drop vectors for text that no longer exists so the cache doesn't grow forever
+  const used = new Set(hashes);
+  for (const hash of cache.keys()) {
+    if (!used.has(hash)) cache.delete(hash);
+  }
+
+  return {
+    backend: backend.id,
+    documents,
+    chunks: texts.map((chunk, i) => ({
+      docId: chunk.docId,
+      heading: chunk.heading,
+      startLine: chunk.startLine,
+      hash: hashes[i],
+      vector: cache.get(hashes[i])!
+    })),
+    cache,
+    embedded: missing.length
+  };
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+// Each document's best chunk, best documents first
+function rankBySimilarity(index: VectorIndex, query: Float32Array, accept: (docId: number) => boolean): { docId: number; match: SemanticMatch }[] {
+  const best = new Map<number, SemanticMatch>();
+  for (const chunk of index.chunks) {
+    if (!accept(chunk.docId)) continue;
+    const score = dot(query, chunk.vector);
+    const current = best.get(chunk.docId);
+    if (!current || score > current.score) {
+      best.set(chunk.docId, { heading: chunk.heading, startLine: chunk.startLine, score });
+    }
+  }
+  return Array.from(best.entries())
+    .map(([docId, match]) => ({ docId, match }))
+    .sort((a, b) => b.match.score - a.match.score);
+}
+
+// Reciprocal rank fusion: a document scores 1/(k + rank) in each ranking it
+// appears in, which needs no calibration between keyword and vector scores
+export function fuseRankings(rankings: string[][], k: number = RRF_K): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((key, position) => {
+      scores.set(key, (scores.get(key) || 0) + 1 / (k + position + 1));
+    });
+  }
+  return scores;
+}
+
+// Search in any mode. Keyword mode is searchDocuments; semantic mode ranks
+// by embedding similarity, still honouring the query's field filters,
+// exclusions and phrases; hybrid fuses the two rankings.
+export async function searchWithMode(
+  mode: SearchMode,
+  searchIndex: SearchIndex,
+  vectorIndex: VectorIndex | null,
+  backend: EmbeddingBackend | null,
+  query: string,
+  options: SearchOptions = {}
+): Promise<RankedDocument[]> {
+  // A query of only filters has nothing to embed, so rank it by keyword
+  const parsed = parseQuery(query);
+  const text = collectScoringTerms(parsed).join(' ');
+  if (!text) mode = 'keyword';
+
+  const limit = options.limit;
+  const keyword = mode === 'semantic'
+    ? []
+    : searchDocuments(searchIndex, query, { ...options, limit: mode === 'hybrid' ? FUSION_DEPTH : limit });
+
+  if (mode === 'keyword') {
+    return keyword.map((doc, position) => ({ doc, keywordRank: position + 1 }));
+  }
+  if (!vectorIndex || !backend) {
+    throw new Error(`${mode} search needs the vector index`);
+  }
+
+  // Embed what would be ranked, bare terms and phrases, not the filters
+  const allowed = new Set(searchIndex.documents.filter((doc, docId) =>
+    matchesSearchOptions(doc, options) && (!parsed || matchesQueryFilters(parsed, searchIndex, docId))
+  ));
+  const semantic = rankBySimilarity(vectorIndex, (await backend.embed([text]))[0], docId => allowed.has(vectorIndex.documents[docId]))
+    .slice(0, mode === 'hybrid' ? FUSION_DEPTH : limit);
+
+  const semanticRanks = new Map(semantic.map((entry, position) => [vectorIndex.documents[entry.docId].relativePath, position + 1]));
+  const matches = new Map(semantic.map(entry => [vectorIndex.documents[entry.docId].relativePath, entry.match]));
+
+  if (mode === 'semantic') {
+    return semantic.map((entry, position) => ({
+      doc: vectorIndex.documents[entry.docId],
+      semanticRank: position + 1,
+      semantic: entry.match
+    }));
+  }
+
+  const keywordRanks = new Map(keyword.map((doc, position) => [doc.relativePath, position + 1]));
+  const byPath = new Map<string, Document>();
+  keyword.forEach(doc => byPath.set(doc.relativePath, doc));
+  semantic.forEach(entry => byPath.set(vectorIndex.documents[entry.docId].relativePath, vectorIndex.documents[entry.docId]));
+
+  const fused = fuseRankings([keyword.map(doc => doc.relativePath), semantic.map(entry => vectorIndex.documents[entry.docId].relativePath)]);
+  const ranked = Array.from(fused.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([path]) => ({
+      doc: byPath.get(path)!,
+      keywordRank: keywordRanks.get(path),
+      semanticRank: semanticRanks.get(path),
+      semantic: matches.get(path)
+    }));
+  return limit ? ranked.slice(0, limit) : ranked;
+}
@@ -0,0 +1,345 @@
+import type { Document } from './docs.js';
+import { tokenize } from './search-index.js';
+import { matchesPathPattern } from './query.js';
+
+// Near-duplicates are found by MinHash over word shingles, split into LSH
+// bands so only documents sharing a band are compared
+const SHINGLE_SIZE = 5;
+const MINHASH_BANDS = 16;
+const MINHASH_ROWS = 4;
+const MINHASH_SIZE = MINHASH_BANDS * MINHASH_ROWS;
+
+// "More like this" looks up candidates through a document's strongest terms,
+// then scores the best of them exactly
+const QUERY_TERMS = 20;
+const RESCORED_CANDIDATES = 3;  // Times the requested limit
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.8;
+const DEFAULT_SIMILAR_LIMIT = 10;
+const DEFAULT_MIN_SIMILARITY = 0.1;
+
+interface TermWeight {
+  docId: number;
+  weight: number;
+}
+
+// Sparse vector with term ids ascending, so two can be merged in one pass
+interface TermVector {
+  terms: Uint32Array;
+  weights: Float64Array;  // TF-IDF, unit length
+}
+
+export interface SimilarityIndex {
+  documents: Document[];
+  ids: Map<string, number>;        // Relative path to position in documents
+  termIds: Map<string, number>;
+  termCounts: Map<number, number>[];  // By document, kept so a rebuild can skip unchanged ones
+  vectors: TermVector[];
+  postings: TermWeight[][];        // By term id
+  signatures?: (Uint32Array | null)[];  // MinHash, computed on first duplicate search
+}
+
+export interface SimilarDocument {
+  path: string;
+  title: string;
+  category?: string;
+  score: number;       // Cosine similarity of TF-IDF vectors, 0-1
+  lastModified?: Date;
+}
+
+export interface SimilarOptions {
+  limit?: number;
+  minScore?: number;
+  category?: string;
+}
+
+export interface DuplicateDocument {
+  path: string;
+  title: string;
+  lastModified?: Date;
+  similarity: number;  // Estimated share of shingles in common with the newest copy
+}
+
+export interface DuplicateCluster {
+  newest: string;
+  documents: DuplicateDocument[];  // Newest first
+}
+
+export interface DuplicateOptions {
+  threshold?: number;
+  category?: string;
+  path?: string;       // Glob, matched like the path: search filter
+}
+
+export interface DuplicateReport {
+  threshold: number;
+  checkedDocuments: number;
+  clusters: DuplicateCluster[];
+}
+
+// Given the index of an earlier version of the corpus, documents that are
+// still the same objects keep their term counts instead of being tokenized
+// again. Weights are always recomputed, since every change moves the IDF.
+export function buildSimilarityIndex(documents: Document[], previous?: SimilarityIndex): SimilarityIndex {
+  const termIds = new Map<string, number>(previous?.termIds);
+  const counts = documents.map(doc => {
+    const previousId = previous?.ids.get(doc.relativePath);
+    if (previousId !== undefined && previous!.documents[previousId] === doc) {
+      return previous!.termCounts[previousId];
+    }
+    const terms = new Map<number, number>();
+    // Titles say what a document is about, so they count double
+    for (const token of [...tokenize(doc.title), ...tokenize(doc.title), ...tokenize(doc.content)]) {
+      let termId = termIds.get(token);
+      if (termId === undefined) {
+        termId = termIds.size;
+        termIds.set(token, termId);
+      }
+      terms.set(termId, (terms.get(termId) || 0) + 1);
+    }
+    return terms;
+  });
+
+  const documentFrequency = new Uint32Array(termIds.size);
+  counts.forEach(terms => terms.forEach((_, termId) => documentFrequency[termId]++));
+
+  const postings: TermWeight[][] = Array.from({ length: termIds.size }, () => []);
+  const vectors = counts.map((terms, docId) => {
+    const entries: [number, number][] = [];
+    let norm = 0;
+    terms.forEach((count, termId) => {
+      const weight = (1 + Math.log(count)) * Math.log(documents.length / documentFrequency[termId]);
+      if (weight <= 0) return;
+      entries.push([termId, weight]);
+      norm += weight * weight;
+    });
+
+    norm = Math.sqrt(norm);
+    entries.sort((a, b) => a[0] - b[0]);
+    const vector: TermVector = {
+      terms: Uint32Array.from(entries, entry => entry[0]),
+      weights: Float64Array.from(entries, entry => entry[1] / norm)
+    };
+    vector.terms.forEach((termId, i) => postings[termId].push({ docId, weight: vector.weights[i] }));
+    return vector;
+  });
+
+  return {
+    documents,
+    ids: new Map(documents.map((doc, docId) => [doc.relativePath, docId])),
+    termIds,
+    termCounts: counts,
+    vectors,
+    postings
+  };
+}
+
+// See-also inference and the similarity tools share one index, rebuilt
+// from the last one whenever they are handed a different document list
+let sharedIndex: SimilarityIndex | null = null;
+
+export function getSharedSimilarityIndex(documents: Document[]): SimilarityIndex {
+  if (sharedIndex?.documents !== documents) {
+    sharedIndex = buildSimilarityIndex(documents, sharedIndex || undefined);
+  }
+  return sharedIndex;
+}
+
+function cosine(a: TermVector, b: TermVector): number {
+  let dot = 0;
+  for (let i = 0, j = 0; i < a.terms.length && j < b.terms.length;) {
+    if (a.terms[i] === b.terms[j]) {
+      dot += a.weights[i++] * b.weights[j++];
+    } else if (a.terms[i] < b.terms[j]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return dot;
+}
+
+// The count highest-scoring ids, without sorting every candidate
+function topScoring(ids: number[], scores: Float64Array, count: number): number[] {
+  const best: number[] = [];  // Ascending by score
+  for (const id of ids) {
+    if (best.length === count && scores[id] <= scores[best[0]]) continue;
+    let position = best.findIndex(other => scores[other] >= scores[id]);
+    if (position === -1) position = best.length;
+    best.splice(position, 0, id);
+    if (best.length > count) best.shift();
+  }
+  return best.reverse();
+}
+
+function requireDocId(index: SimilarityIndex, path: string): number {
+  const docId = index.ids.get(path);
+  if (docId === undefined) {
+    throw new Error(`Document not found: ${path}`);
+  }
+  return docId;
+}
+
+// Documents most like the one at path, most similar first
+export function findSimilarDocuments(index: SimilarityIndex, path: string, options: SimilarOptions = {}): SimilarDocument[] {
+  const { limit = DEFAULT_SIMILAR_LIMIT, minScore = DEFAULT_MIN_SIMILARITY, category } = options;
+  const docId = requireDocId(index, path);
+  const vector = index.vectors[docId];
+
+  const queryTerms = Array.from(vector.terms.keys())
+    .sort((a, b) => vector.weights[b] - vector.weights[a])
+    .slice(0, QUERY_TERMS);
+
+  const partial = new Float64Array(index.documents.length);
+  const touched: number[] = [];
+  for (const i of queryTerms) {
+    const weight = vector.weights[i];
+    for (const posting of index.postings[vector.terms[i]]) {
+      if (posting.docId === docId) continue;
+      if (partial[posting.docId] === 0) touched.push(posting.docId);
+      partial[posting.docId] += weight * posting.weight;
+    }
+  }
+
+  const inCategory = touched.filter(candidate => !category || index.documents[candidate].category === category);
+  return topScoring(inCategory, partial, limit * RESCORED_CANDIDATES)
+    .map(candidate => ({ candidate, score: cosine(vector, index.vectors[candidate]) }))
+    .filter(({ score }) => score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ candidate, score }) => {
+      const doc = index.documents[candidate];
+      return {
+        path: doc.relativePath,
+        title: doc.title,
+        category: doc.category,
+        score: Math.round(score * 1000) / 1000,
+        lastModified: doc.lastModified
+      };
+    });
+}
+
+// 32-bit FNV-1a
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Cheap independent hash functions: remix the shingle hash with a per-row seed
+function rehash(hash: number, seed: number): number {
+  let h = (hash ^ seed) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+const SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => hashString(`minhash-${i}`));
+
+// Null for documents without any words, which would all look identical
+function computeSignature(doc: Document): Uint32Array | null {
+  const tokens = tokenize(doc.content);
+  if (tokens.length === 0) return null;
+
+  const signature = new Uint32Array(MINHASH_SIZE).fill(0xffffffff);
+  const shingleCount = Math.max(1, tokens.length - SHINGLE_SIZE + 1);
+  for (let start = 0; start < shingleCount; start++) {
+    const shingle = hashString(tokens.slice(start, start + SHINGLE_SIZE).join(' '));
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const value = rehash(shingle, SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+}
+
+function estimateJaccard(a: Uint32Array, b: Uint32Array): number {
+  let same = 0;
+  for (let i = 0; i < MINHASH_SIZE; i++) {
+    if (a[i] === b[i]) same++;
+  }
+  return same / MINHASH_SIZE;
+}
+
+// Groups of near-identical documents, largest first. Copies are linked
+// when at least threshold of their word shingles match, so a cluster can
+// chain through a copy that sits between two others.
+export function findDuplicateClusters(index: SimilarityIndex, options: DuplicateOptions = {}): DuplicateReport {
+  const { threshold = DEFAULT_DUPLICATE_THRESHOLD, category, path } = options;
+  if (!(threshold > 0 && threshold <= 1)) {
+    throw new Error(`threshold must be greater than 0 and at most 1, got ${threshold}`);
+  }
+
+  if (!index.signatures) {
+    index.signatures = index.documents.map(computeSignature);
+  }
+  const signatures = index.signatures;
+
+  const inScope = index.documents
+    .map((_, docId) => docId)
+    .filter(docId => signatures[docId] !== null)
+    .filter(docId => !category || index.documents[docId].category === category)
+    .filter(docId => !path || matchesPathPattern(index.documents[docId].relativePath, path));
+
+  const parent = new Map<number, number>(inScope.map(docId => [docId, docId]));
+  const find = (docId: number): number => {
+    while (parent.get(docId) !== docId) {
+      const up = parent.get(parent.get(docId)!)!;
+      parent.set(docId, up);
+      docId = up;
+    }
+    return docId;
+  };
+
+  const buckets = new Map<string, number[]>();
+  for (const docId of inScope) {
+    const signature = signatures[docId]!;
+    for (let band = 0; band < MINHASH_BANDS; band++) {
+      const key = `${band}:${signature.subarray(band * MINHASH_ROWS, (band + 1) * MINHASH_ROWS).join(',')}`;
+      if (!buckets.has(key)) buckets.set(key, []);
+      buckets.get(key)!.push(docId);
+    }
+  }
+
+  for (const members of buckets.values()) {
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const [a, b] = [find(members[i]), find(members[j])];
+        if (a === b) continue;
+        if (estimateJaccard(signatures[members[i]]!, signatures[members[j]]!) >= threshold) {
+          parent.set(a, b);
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  for (const docId of inScope) {
+    const root = find(docId);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(docId);
+  }
+
+  const time = (docId: number) => index.documents[docId].lastModified?.getTime() || 0;
+  const clusters = Array.from(groups.values())
+    .filter(members => members.length > 1)
+    .map(members => {
+      members.sort((a, b) => time(b) - time(a) || index.documents[a].relativePath.localeCompare(index.documents[b].relativePath));
+      const newest = members[0];
+      return {
+        newest: index.documents[newest].relativePath,
+        documents: members.map(docId => ({
+          path: index.documents[docId].relativePath,
+          title: index.documents[docId].title,
+          lastModified: index.documents[docId].lastModified,
+          similarity: docId === newest ? 1 : estimateJaccard(signatures[newest]!, signatures[docId]!)
+        }))
+      };
+    })
+    .sort((a, b) => b.documents.length - a.documents.length || a.newest.localeCompare(b.newest));
+
+  return { threshold, checkedDocuments: inScope.length, clusters };
+}
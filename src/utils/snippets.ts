@@ -0,0 +1,202 @@
+import type { Document } from './docs.js';
+import { Block, splitIntoBlocks } from './chunks.js';
+import { findSectionAt } from './markdown.js';
+import { normalizeTerm } from './search-index.js';
+
+export const DEFAULT_MAX_SNIPPETS = 2;
+
+// About two sentences; a whole short paragraph fits
+const SNIPPET_CHARS = 240;
+
+// How far back a snippet may start to begin with its sentence
+const SENTENCE_LOOKBACK = 80;
+
+const HIGHLIGHT = '**';
+const ELLIPSIS = '…';
+
+export interface Snippet {
+  text: string;           // Matched words are wrapped in **
+  heading?: string;       // Innermost heading the snippet is under
+  anchor?: string;
+  startLine: number;      // File line the snippet starts on
+  matchedTerms: string[];
+}
+
+interface WordMatch {
+  start: number;  // Character offsets into the document content
+  end: number;
+  term: string;
+  code: boolean;  // In a code block or inline code, where ** would show literally
+}
+
+interface ScoredBlock {
+  block: Block;
+  matches: WordMatch[];
+}
+
+// Ranges of a block's text matching a pattern
+function findRanges(text: string, pattern: RegExp): [number, number][] {
+  return Array.from(text.matchAll(pattern), match => [match.index!, match.index! + match[0].length]);
+}
+
+// Words whose search term is one of the wanted terms. Words in link
+// targets and bare URLs are part of an address, not the text.
+function findMatches(content: string, block: Block, wanted: Set<string>): WordMatch[] {
+  const matches: WordMatch[] = [];
+  const text = content.slice(block.startOffset, block.endOffset);
+  const addresses = findRanges(text, /\]\([^)]*\)|<?https?:\/\/[^\s)>]+>?/g);
+  const inlineCode = findRanges(text, /`[^`\n]+`/g);
+  const within = (ranges: [number, number][], offset: number) => ranges.some(([start, end]) => start <= offset && offset < end);
+
+  for (const match of text.matchAll(/[a-z0-9]+/gi)) {
+    const term = normalizeTerm(match[0].toLowerCase());
+    if (!wanted.has(term) || within(addresses, match.index!)) continue;
+    const start = block.startOffset + match.index!;
+    matches.push({ start, end: start + match[0].length, term, code: block.kind === 'code' || within(inlineCode, match.index!) });
+  }
+  return matches;
+}
+
+// The opening text a reader would see, skipping badge rows, raw HTML and
+// tables of contents
+function isLeadBlock(content: string, block: Block): boolean {
+  if (block.kind !== 'text') return false;
+  const lines = content.slice(block.startOffset, block.endOffset).split('\n').filter(line => line.trim());
+  return !lines.every(line =>
+    /^\s*</.test(line) ||
+    /^\s*(\[?!\[[^\]]*\]\([^)]*\)\]?(\([^)]*\))?\s*)+$/.test(line) ||
+    /^\s*([-*+]|\d+\.)\s*\[[^\]]*\]\(#[^)]*\)\s*$/.test(line)
+  );
+}
+
+// Pick the window of a block with the most matches, widened to whole lines
+// for code and tables and to sentence or word boundaries for prose
+function chooseWindow(content: string, block: Block, matches: WordMatch[]): { start: number; end: number } {
+  if (block.endOffset - block.startOffset <= SNIPPET_CHARS) {
+    return { start: block.startOffset, end: block.endOffset };
+  }
+
+  let spanStart = block.startOffset;
+  let spanEnd = block.startOffset;
+  if (matches.length > 0) {
+    let first = 0;
+    let bestFirst = 0;
+    let bestCount = 0;
+    matches.forEach((match, last) => {
+      while (match.end - matches[first].start > SNIPPET_CHARS) first++;
+      if (last - first + 1 > bestCount) {
+        bestFirst = first;
+        bestCount = last - first + 1;
+      }
+    });
+    spanStart = matches[bestFirst].start;
+    spanEnd = matches[bestFirst + bestCount - 1].end;
+  }
+
+  // Centre the matched span in the window
+  let start = Math.max(block.startOffset, spanStart - Math.floor((SNIPPET_CHARS - (spanEnd - spanStart)) / 2));
+  let end = Math.min(block.endOffset, start + SNIPPET_CHARS);
+  start = Math.max(block.startOffset, end - SNIPPET_CHARS);
+
+  if (block.kind !== 'text') {
+    start = Math.max(block.startOffset, content.lastIndexOf('\n', start - 1) + 1);
+    const lineEnd = content.indexOf('\n', end);
+    end = lineEnd === -1 || lineEnd > block.endOffset ? block.endOffset : lineEnd;
+    return { start, end };
+  }
+
+  // Start at the sentence the matches are in when it begins close enough
+  let sentenceStart = -1;
+  const lookback = Math.max(block.startOffset, spanStart - SENTENCE_LOOKBACK);
+  for (const boundary of content.slice(lookback, spanStart).matchAll(/[.!?:]\s+|\n/g)) {
+    sentenceStart = lookback + boundary.index! + boundary[0].length;
+  }
+  if (sentenceStart !== -1) {
+    start = sentenceStart;
+  } else {
+    while (start > block.startOffset && /\w/.test(content[start - 1])) start--;
+  }
+  while (end < block.endOffset && /\w/.test(content[end])) end++;
+  return { start, end };
+}
+
+// Mark matches outside code. Matches joined by "-" or "." share one mark,
+// so "vets-api" reads as one name.
+function highlight(content: string, start: number, end: number, matches: WordMatch[]): string {
+  const spans: { start: number; end: number }[] = [];
+  for (const match of matches) {
+    if (match.code) continue;
+    const previous = spans[spans.length - 1];
+    if (previous && /^[-.]$/.test(content.slice(previous.end, match.start))) {
+      previous.end = match.end;
+    } else {
+      spans.push({ start: match.start, end: match.end });
+    }
+  }
+
+  let text = '';
+  let position = start;
+  for (const span of spans) {
+    text += content.slice(position, span.start) + HIGHLIGHT + content.slice(span.start, span.end) + HIGHLIGHT;
+    position = span.end;
+  }
+  return text + content.slice(position, end);
+}
+
+function toSnippet(doc: Document, block: Block, matches: WordMatch[]): Snippet {
+  const { start, end } = chooseWindow(doc.content, block, matches);
+  const inWindow = matches.filter(match => match.start >= start && match.end <= end);
+  const section = findSectionAt(doc.sections || [], start);
+  const body = highlight(doc.content, start, end, inWindow).trim();
+
+  return {
+    text: (start > block.startOffset && block.kind === 'text' ? ELLIPSIS : '') +
+      body +
+      (end < block.endOffset && block.kind === 'text' ? ELLIPSIS : ''),
+    heading: section?.heading,
+    anchor: section?.anchor,
+    startLine: (doc.bodyStartLine || 1) + (doc.content.slice(0, start).match(/\n/g) || []).length,
+    matchedTerms: Array.from(new Set(inWindow.map(match => match.term)))
+  };
+}
+
+// Passages around the query terms, best first. Each snippet stays inside
+// one paragraph, list, table or code block, so it never runs across a
+// heading. A document the terms don't appear in gets its opening prose.
+export function extractSnippets(doc: Document, terms: string[], maxSnippets: number = DEFAULT_MAX_SNIPPETS): Snippet[] {
+  if (maxSnippets <= 0) return [];
+  const blocks = splitIntoBlocks(doc.content).filter(block => block.kind !== 'heading');
+  const wanted = new Set(terms);
+
+  const candidates: ScoredBlock[] = blocks
+    .map(block => ({ block, matches: findMatches(doc.content, block, wanted) }))
+    .filter(candidate => candidate.matches.length > 0);
+
+  // Greedy: each pick favours terms the earlier snippets didn't show
+  const snippets: Snippet[] = [];
+  const covered = new Set<string>();
+  while (snippets.length < maxSnippets && candidates.length > 0) {
+    let best = 0;
+    let bestScore = -1;
+    candidates.forEach((candidate, i) => {
+      const distinct = new Set(candidate.matches.map(match => match.term));
+      const fresh = Array.from(distinct).filter(term => !covered.has(term)).length;
+      const score = fresh * 3 + distinct.size + Math.min(candidate.matches.length, 5) * 0.5;
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+
+    const [{ block, matches }] = candidates.splice(best, 1);
+    const snippet = toSnippet(doc, block, matches);
+    snippet.matchedTerms.forEach(term => covered.add(term));
+    snippets.push(snippet);
+  }
+
+  if (snippets.length === 0) {
+    const lead = blocks.find(block => isLeadBlock(doc.content, block));
+    if (lead) snippets.push(toSnippet(doc, lead, []));
+  }
+  return snippets;
+}
@@ -0,0 +1,111 @@
+import { basename } from 'path';
+import { findVaDocsRepo } from './paths.js';
+
+// A docs repository being indexed. With more than one, every document's
+// relativePath starts with its source id, so identical paths in different
+// repositories don't collide.
+export interface DocSource {
+  id: string;
+  path: string;             // Absolute path of the docs root
+  repository?: string;      // GitHub owner/name, so links to it on github.com resolve
+  repositoryPath?: string;  // Where the docs root sits inside the repository, '' at the top
+}
+
+export const SOURCE_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+// Links into the va.gov-team repo on GitHub have always counted as internal
+const DEFAULT_REPOSITORY = 'department-of-veterans-affairs/va.gov-team';
+
+let sources: DocSource[] = [];
+
+export function configureSources(list: DocSource[]): void {
+  const ids = new Set<string>();
+  for (const source of list) {
+    if (!SOURCE_ID_PATTERN.test(source.id)) {
+      throw new Error(`Invalid source id "${source.id}"; use letters, digits, ".", "_" and "-"`);
+    }
+    if (ids.has(source.id)) {
+      throw new Error(`Duplicate source id "${source.id}"`);
+    }
+    ids.add(source.id);
+  }
+  sources = list.map(source => ({
+    ...source,
+    repositoryPath: (source.repositoryPath || '').replace(/^\/+|\/+$/g, '')
+  }));
+}
+
+export function getSources(): DocSource[] {
+  return sources;
+}
+
+// The configured sources, or else the one repository findVaDocsRepo
+// finds. VA_DOCS_PATH overrides both.
+export function resolveSources(configured: DocSource[], roots: string[] = []): DocSource[] {
+  if (configured.length === 0 || process.env.VA_DOCS_PATH) {
+    const path = findVaDocsRepo(roots);
+    configureSources([{ id: basename(path) || 'docs', path, repository: DEFAULT_REPOSITORY }]);
+  } else {
+    configureSources(configured);
+  }
+  return sources;
+}
+
+export function isNamespaced(): boolean {
+  return sources.length > 1;
+}
+
+// What a source's document paths start with: its id and a slash, or
+// nothing when it is the only source
+export function getSourcePrefix(source: DocSource): string {
+  return isNamespaced() ? `${source.id}/` : '';
+}
+
+export function toDocumentPath(source: DocSource, localPath: string): string {
+  return getSourcePrefix(source) + localPath;
+}
+
+// A document path relative to its own source's root
+export function getLocalPath(relativePath: string): string {
+  return isNamespaced() ? relativePath.slice(relativePath.indexOf('/') + 1) : relativePath;
+}
+
+// The top-level directory within the source
+export function getCategory(relativePath: string): string {
+  return getLocalPath(relativePath).split('/')[0] || 'general';
+}
+
+export function findSource(id: string): DocSource | undefined {
+  return sources.find(source => source.id === id);
+}
+
+// The source a document path belongs to
+export function findSourceForPath(relativePath: string): DocSource | undefined {
+  if (!isNamespaced()) return sources[0];
+  return findSource(relativePath.split('/')[0]);
+}
+
+// Throws for an unknown id, naming the ones there are
+export function requireSource(id: string): DocSource {
+  const source = findSource(id);
+  if (!source) {
+    throw new Error(`Unknown source: ${id}. Sources: ${sources.map(entry => entry.id).join(', ')}`);
+  }
+  return source;
+}
+
+// The document path a file in a GitHub repository maps to, or null when
+// the repository (or that part of it) isn't indexed
+export function resolveRepositoryPath(repository: string, path: string): string | null {
+  const source = sources.find(entry => entry.repository?.toLowerCase() === repository.toLowerCase());
+  if (!source) return null;
+  if (!source.repositoryPath) return toDocumentPath(source, path);
+  if (!path.startsWith(`${source.repositoryPath}/`)) return null;
+  return toDocumentPath(source, path.slice(source.repositoryPath.length + 1));
+}
+
+// Changes whenever document paths or link resolution would, so indexes
+// built for other sources can be recognized
+export function getSourceSignature(): string {
+  return JSON.stringify(sources);
+}
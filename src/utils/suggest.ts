@@ -0,0 +1,276 @@
+import { SearchIndex, isStopWord, normalizeTerm, splitWords } from './search-index.js';
+
+// Hyphenated and dotted names that search splits into separate terms. The
+// corpus adds its own; these are known even before they've been indexed.
+const KNOWN_COMPOUNDS = [
+  'va.gov',
+  'vets-api',
+  'vets-website',
+  'vets-json-schema',
+  'content-build',
+  'next-build',
+  'component-library',
+  'login.gov',
+  'id.me'
+];
+
+// Queries with fewer hits than this get suggestions
+export const FEW_HITS = 3;
+
+const MAX_SUGGESTIONS = 3;
+
+// Shorter words are too ambiguous to correct: "a" is one edit from "b" and "x"
+const MIN_WORD_LENGTH = 3;
+
+// A word that is in the index can still be a typo if a close spelling is
+// this many times more common
+const COMMON_SPELLING_RATIO = 10;
+
+const COMPOUND = /[a-z0-9]+(?:[-.][a-z0-9]+)+/g;
+const QUERY_WORD = /[A-Za-z0-9]+(?:[-.][A-Za-z0-9]+)*/g;
+const OPERATORS = new Set(['AND', 'OR', 'NOT']);
+
+interface VocabularyTerm {
+  term: string;
+  documentFrequency: number;
+}
+
+export interface SpellingIndex {
+  termsByLength: Map<number, VocabularyTerm[]>;
+  documentFrequency: Map<string, number>;
+  wordForms: Map<string, string[]>;  // Index term to the words it was stemmed from, most common first
+  compounds: Map<string, number>;   // Lowercase compound to document frequency
+  collapsed: Map<string, string>;   // Compound without separators to the compound
+}
+
+export interface Correction {
+  from: string;
+  to: string;
+}
+
+export interface QuerySuggestion {
+  query: string;
+  hits: number;
+  corrections: Correction[];
+}
+
+export function buildSpellingIndex(index: SearchIndex): SpellingIndex {
+  const termsByLength = new Map<number, VocabularyTerm[]>();
+  const documentFrequency = new Map<string, number>();
+  for (const [term, postings] of index.postings) {
+    // Numbers are rarely misspelled and would crowd out words
+    if (/^\d+$/.test(term)) continue;
+    documentFrequency.set(term, postings.length);
+    if (!termsByLength.has(term.length)) termsByLength.set(term.length, []);
+    termsByLength.get(term.length)!.push({ term, documentFrequency: postings.length });
+  }
+
+  const compounds = new Map<string, number>();
+  const formCounts = new Map<string, Map<string, number>>();
+  for (const doc of index.documents) {
+    const text = `${doc.title}\n${doc.content}`;
+    const seen = new Set((text.toLowerCase().match(COMPOUND) || []).filter(isNameLike));
+    seen.forEach(compound => compounds.set(compound, (compounds.get(compound) || 0) + 1));
+
+    for (const word of splitWords(text)) {
+      const term = normalizeTerm(word);
+      if (!documentFrequency.has(term)) continue;
+      if (!formCounts.has(term)) formCounts.set(term, new Map());
+      const counts = formCounts.get(term)!;
+      counts.set(word, (counts.get(word) || 0) + 1);
+    }
+  }
+  const wordForms = new Map<string, string[]>();
+  for (const [term, counts] of formCounts) {
+    wordForms.set(term, Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)!));
+  }
+  // One-off compounds are mostly file names and typos of their own
+  for (const [compound, count] of compounds) {
+    if (count < 2) compounds.delete(compound);
+  }
+  KNOWN_COMPOUNDS.forEach(compound => {
+    if (!compounds.has(compound)) compounds.set(compound, 0);
+  });
+
+  const collapsed = new Map<string, string>();
+  for (const compound of compounds.keys()) {
+    collapsed.set(compound.replace(/[-.]/g, ''), compound);
+  }
+
+  return { termsByLength, documentFrequency, wordForms, compounds, collapsed };
+}
+
+// Every part has a letter, and none is a single character: "vets-api", not
+// "2024-01-01" or "e.g"
+function isNameLike(compound: string): boolean {
+  return compound.split(/[-.]/).every(part => part.length > 1 && /[a-z]/.test(part));
+}
+
+// Optimal string alignment distance (Levenshtein plus adjacent
+// transpositions), giving up once it must exceed max
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return row[b.length];
+}
+
+// Longer words get more room for mistakes
+function allowedDistance(word: string): number {
+  return word.length <= 4 ? 1 : 2;
+}
+
+// Close spellings, fewest edits first, then the most common
+function findCloseTerms(spelling: SpellingIndex, term: string): VocabularyTerm[] {
+  const max = allowedDistance(term);
+  const matches: (VocabularyTerm & { distance: number })[] = [];
+  for (let length = term.length - max; length <= term.length + max; length++) {
+    for (const candidate of spelling.termsByLength.get(length) || []) {
+      if (candidate.term === term) continue;
+      const distance = editDistance(term, candidate.term, max);
+      if (distance <= max) matches.push({ ...candidate, distance });
+    }
+  }
+  return matches.sort((a, b) => a.distance - b.distance || b.documentFrequency - a.documentFrequency);
+}
+
+// Compared without separators, so "vetsapi" and "vets_webiste" still count
+function findCloseCompounds(spelling: SpellingIndex, word: string): string[] {
+  const bare = word.replace(/[-._]/g, '');
+  const max = allowedDistance(bare);
+  return Array.from(spelling.collapsed.entries())
+    .map(([collapsed, compound]) => ({ compound, distance: editDistance(bare, collapsed, max) }))
+    .filter(match => match.distance <= max)
+    .sort((a, b) => a.distance - b.distance || spelling.compounds.get(b.compound)! - spelling.compounds.get(a.compound)!)
+    .map(match => match.compound);
+}
+
+// Put the stripped plural back: "appoinments" corrected through
+// "appoinment" becomes "appointments", not "appointment"
+function restoreInflection(word: string, corrected: string): string {
+  const normalized = normalizeTerm(word);
+  if (normalized === word) return corrected;
+  if (word.startsWith(normalized)) return corrected + word.slice(normalized.length);
+  if (word.endsWith('ies') && corrected.endsWith('y')) return corrected.slice(0, -1) + 'ies';
+  return corrected;
+}
+
+// A word the corpus actually uses for a corrected term: the query word's
+// inflection if the corpus has it, otherwise the most common form
+function toCorpusWord(spelling: SpellingIndex, word: string, term: string): string {
+  const forms = spelling.wordForms.get(term);
+  if (!forms || forms.length === 0) return term;
+  const inflected = restoreInflection(word, term);
+  return forms.includes(inflected) ? inflected : forms[0];
+}
+
+// Spellings to offer instead of one query word, best first; empty when the
+// word looks right
+function correctWord(spelling: SpellingIndex, word: string): string[] {
+  const lower = word.toLowerCase();
+  if (spelling.compounds.has(lower)) return [];
+  if (!/[-.]/.test(lower) && (lower.length < MIN_WORD_LENGTH || isStopWord(lower))) return [];
+
+  if (/[-.]/.test(lower)) {
+    // A known compound with a typo, or parts that are all fine on their own
+    const compounds = findCloseCompounds(spelling, lower);
+    if (compounds.length > 0) return compounds;
+    const pieces = lower.split(/([-.])/);
+    const corrected = pieces.map((piece, i) => i % 2 === 1 ? piece : correctWord(spelling, piece)[0] || piece).join('');
+    return corrected !== lower ? [corrected] : [];
+  }
+
+  const term = normalizeTerm(lower);
+  const frequency = spelling.documentFrequency.get(term) || 0;
+
+  const close = findCloseTerms(spelling, term)
+    .filter(candidate => frequency === 0 || candidate.documentFrequency >= frequency * COMMON_SPELLING_RATIO)
+    .map(candidate => toCorpusWord(spelling, lower, candidate.term));
+  const compounds = frequency === 0 ? findCloseCompounds(spelling, lower) : [];
+  return Array.from(new Set([...compounds, ...close]));
+}
+
+// Query words that corrections can apply to: not operators, field names or
+// field values
+function findQueryWords(query: string): { word: string; start: number }[] {
+  const words: { word: string; start: number }[] = [];
+  for (const match of query.matchAll(QUERY_WORD)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    if (OPERATORS.has(match[0])) continue;
+    if (query[end] === ':' || /\S+:\S*$/.test(query.slice(0, start))) continue;
+    words.push({ word: match[0], start });
+  }
+  return words;
+}
+
+function applyCorrections(query: string, words: { word: string; start: number }[], replacements: (string | undefined)[]): string {
+  let result = '';
+  let position = 0;
+  words.forEach(({ word, start }, i) => {
+    result += query.slice(position, start) + (replacements[i] ?? word);
+    position = start + word.length;
+  });
+  return result + query.slice(position);
+}
+
+// Corrected versions of a query that find more documents than it does.
+// The first changes every word that looks misspelled to its best
+// correction; the others try the runner-up spellings one word at a time.
+export function suggestQueries(
+  spelling: SpellingIndex,
+  query: string,
+  currentHits: number,
+  countHits: (query: string) => number
+): QuerySuggestion[] {
+  const words = findQueryWords(query);
+  const options = words.map(({ word }) => correctWord(spelling, word));
+  if (options.every(list => list.length === 0)) return [];
+
+  const candidates: (string | undefined)[][] = [options.map(list => list[0])];
+  options.forEach((list, i) => {
+    list.slice(1).forEach(alternative => {
+      const replacements = options.map(other => other[0]);
+      replacements[i] = alternative;
+      candidates.push(replacements);
+    });
+  });
+
+  const suggestions: QuerySuggestion[] = [];
+  const seen = new Set<string>();
+  for (const replacements of candidates) {
+    if (suggestions.length >= MAX_SUGGESTIONS) break;
+    const corrected = applyCorrections(query, words, replacements);
+    if (seen.has(corrected)) continue;
+    seen.add(corrected);
+
+    const hits = countHits(corrected);
+    if (hits <= currentHits) continue;
+    suggestions.push({
+      query: corrected,
+      hits,
+      corrections: words
+        .map(({ word }, i) => ({ from: word, to: replacements[i] }))
+        .filter((correction): correction is Correction => correction.to !== undefined && correction.to !== correction.from)
+    });
+  }
+
+  return suggestions;
+}
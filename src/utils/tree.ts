@@ -0,0 +1,114 @@
+import type { Document } from './docs.js';
+import { FacetCount, computeFacets } from './facets.js';
+import { getLocalPath, isNamespaced } from './sources.js';
+
+const INDEX_DOCUMENT = /^(readme|index)\.mdx?$/i;
+
+export interface TreeDocument {
+  path: string;
+  title: string;
+  documentType?: string;
+}
+
+export interface TreeNode {
+  path: string;             // Directory path, '' for the docs root
+  documentCount: number;    // Documents in this directory and below
+  title?: string;           // Title of the directory's README or index document
+  indexDocument?: string;
+  documents?: TreeDocument[];      // Directly in this directory; only on the node browsed
+  children?: TreeNode[];
+  subdirectoryCount?: number;      // Instead of children, past the requested depth
+}
+
+export interface CategorySummary {
+  name: string;
+  documentCount: number;
+  title?: string;
+  sources?: FacetCount[];    // When several sources are indexed
+  subcategories: FacetCount[];
+  documentTypes: FacetCount[];
+}
+
+function findIndexDocument(
+  documents: Document[],
+  directory: string,
+  pathOf: (doc: Document) => string = doc => doc.relativePath
+): Document | undefined {
+  return documents.find(doc => {
+    const name = pathOf(doc).slice(directory ? directory.length + 1 : 0);
+    return !name.includes('/') && INDEX_DOCUMENT.test(name);
+  });
+}
+
+function buildNode(documents: Document[], directory: string, depth: number, listDocuments: boolean): TreeNode {
+  const offset = directory ? directory.length + 1 : 0;
+  const direct: Document[] = [];
+  const subdirectories = new Map<string, Document[]>();
+  for (const doc of documents) {
+    const rest = doc.relativePath.slice(offset);
+    const slash = rest.indexOf('/');
+    if (slash === -1) {
+      direct.push(doc);
+      continue;
+    }
+    const name = rest.slice(0, slash);
+    if (!subdirectories.has(name)) subdirectories.set(name, []);
+    subdirectories.get(name)!.push(doc);
+  }
+
+  const index = findIndexDocument(documents, directory);
+  const names = Array.from(subdirectories.keys()).sort();
+  return {
+    path: directory,
+    documentCount: documents.length,
+    title: index?.title,
+    indexDocument: index?.relativePath,
+    documents: listDocuments
+      ? direct
+        .map(doc => ({ path: doc.relativePath, title: doc.title, documentType: doc.documentType }))
+        .sort((a, b) => a.path.localeCompare(b.path))
+      : undefined,
+    children: depth > 0 && names.length > 0
+      ? names.map(name => buildNode(subdirectories.get(name)!, directory ? `${directory}/${name}` : name, depth - 1, false))
+      : undefined,
+    subdirectoryCount: depth > 0 || names.length === 0 ? undefined : names.length
+  };
+}
+
+// The directory hierarchy under a path prefix, depth levels deep, with
+// document counts and the titles of README/index documents
+export function browseTree(documents: Document[], prefix: string = '', depth: number = 1): TreeNode {
+  const directory = prefix.replace(/^\/+|\/+$/g, '');
+  const under = directory
+    ? documents.filter(doc => doc.relativePath.startsWith(`${directory}/`))
+    : documents;
+  if (under.length === 0) {
+    throw new Error(`No documents under ${prefix}`);
+  }
+  return buildNode(under, directory, depth, true);
+}
+
+// Every top-level category with its size, README title, subcategories and
+// the kinds of documents it holds. Categories are directories within a
+// source, so one name can span several sources.
+export function summarizeCategories(documents: Document[]): CategorySummary[] {
+  const byCategory = new Map<string, Document[]>();
+  for (const doc of documents) {
+    if (!doc.category) continue;
+    if (!byCategory.has(doc.category)) byCategory.set(doc.category, []);
+    byCategory.get(doc.category)!.push(doc);
+  }
+
+  return Array.from(byCategory.keys()).sort().map(name => {
+    const categoryDocuments = byCategory.get(name)!;
+    const facets = computeFacets(categoryDocuments, ['source', 'subcategory', 'documentType']);
+    return {
+      name,
+      documentCount: categoryDocuments.length,
+      title: findIndexDocument(categoryDocuments, name, doc => getLocalPath(doc.relativePath))?.title,
+      sources: isNamespaced() ? facets.source : undefined,
+      subcategories: facets.subcategory,
+      documentTypes: facets.documentType
+    };
+  });
+}
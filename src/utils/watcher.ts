@@ -0,0 +1,143 @@
+import { FSWatcher, existsSync, statSync, watch } from 'fs';
+import { join } from 'path';
+import { glob } from 'glob';
+import { Document, DocumentChanges, isDocumentPath, parseDocument, updateRelationshipIndex } from './docs.js';
+import { DocSource, getLocalPath, toDocumentPath } from './sources.js';
+
+// A branch checkout touches many files in quick succession; wait for the
+// burst to settle before re-indexing
+const DEFAULT_DEBOUNCE_MS = 500;
+
+export interface DocsWatcher {
+  close(): void;
+}
+
+function isIgnoredPath(relativePath: string): boolean {
+  const segments = relativePath.split('/');
+  return segments[0] === '.git' || segments.includes('node_modules');
+}
+
+export function watchDocuments(
+  docsPath: string,
+  onChange: (relativePaths: string[]) => void,
+  debounceMs: number = DEFAULT_DEBOUNCE_MS
+): DocsWatcher {
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+
+  const flush = () => {
+    timer = undefined;
+    const paths = Array.from(pending);
+    pending.clear();
+    if (paths.length > 0) {
+      onChange(paths);
+    }
+  };
+
+  const watcher: FSWatcher = watch(docsPath, { recursive: true }, (_event, filename) => {
+    if (!filename) return;
+    const relativePath = filename.toString().split('\\').join('/');
+    if (isIgnoredPath(relativePath)) return;
+
+    pending.add(relativePath);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, debounceMs);
+  });
+
+  watcher.on('error', error => {
+    console.error('Document watcher error:', error);
+  });
+
+  return {
+    close() {
+      if (timer) clearTimeout(timer);
+      watcher.close();
+    }
+  };
+}
+
+// Work out which documents a batch of watcher paths refers to. Directory
+// events (a folder renamed or deleted in one go) expand to every document
+// that was, or now is, underneath it
+function expandChangedPaths(docsPath: string, relativePaths: string[], known: Map<string, Document>): Set<string> {
+  const candidates = new Set<string>();
+  let sawDirectoryEvent = false;
+
+  for (const relativePath of relativePaths) {
+    if (isDocumentPath(relativePath)) {
+      candidates.add(relativePath);
+      continue;
+    }
+    sawDirectoryEvent = true;
+
+    const prefix = relativePath.replace(/\/+$/, '') + '/';
+    for (const knownPath of known.keys()) {
+      if (knownPath.startsWith(prefix)) candidates.add(knownPath);
+    }
+
+    const absolutePath = join(docsPath, relativePath);
+    try {
+      if (existsSync(absolutePath) && statSync(absolutePath).isDirectory()) {
+        const files = glob.sync('**/*', { cwd: absolutePath, nodir: true, ignore: ['**/node_modules/**'] });
+        files
+          .map(file => join(relativePath, file).split('\\').join('/'))
+          .filter(isDocumentPath)
+          .forEach(path => candidates.add(path));
+      }
+    } catch (error) {
+      // The directory disappeared again mid-scan; its known documents are already queued
+    }
+  }
+
+  // Renaming a directory doesn't always report the old name, so check that
+  // every known document is still where we think it is
+  if (sawDirectoryEvent) {
+    for (const [knownPath, doc] of known) {
+      if (!candidates.has(knownPath) && !existsSync(doc.path)) candidates.add(knownPath);
+    }
+  }
+
+  return candidates;
+}
+
+// Re-parse the documents behind a batch of watcher paths, which are
+// relative to the source's root, and patch the relationship index.
+// Renames arrive as a removal plus an addition.
+export function applyFileChanges(
+  documents: Document[],
+  source: DocSource,
+  relativePaths: string[]
+): { documents: Document[]; changes: DocumentChanges } {
+  // The source's documents, by path within the source
+  const known = new Map(documents
+    .filter(doc => doc.source === source.id)
+    .map(doc => [getLocalPath(doc.relativePath), doc]));
+  const changes: DocumentChanges = { added: [], modified: [], removed: [] };
+  const replacements = new Map<string, Document>();
+
+  for (const relativePath of expandChangedPaths(source.path, relativePaths, known)) {
+    const absolutePath = join(source.path, relativePath);
+    const doc = existsSync(absolutePath) ? parseDocument(absolutePath, source) : null;
+
+    if (doc) {
+      replacements.set(doc.relativePath, doc);
+      (known.has(relativePath) ? changes.modified : changes.added).push(doc.relativePath);
+    } else if (known.has(relativePath)) {
+      changes.removed.push(toDocumentPath(source, relativePath));
+    }
+  }
+
+  if (changes.added.length === 0 && changes.modified.length === 0 && changes.removed.length === 0) {
+    return { documents, changes };
+  }
+
+  const removed = new Set(changes.removed);
+  const updated = documents
+    .filter(doc => !removed.has(doc.relativePath))
+    .map(doc => replacements.get(doc.relativePath) || doc);
+  changes.added.forEach(path => updated.push(replacements.get(path)!));
+
+  updateRelationshipIndex(updated, changes);
+
+  return { documents: updated, changes };
+}